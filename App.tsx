@@ -1,21 +1,53 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { ImageUploader } from './components/ImageUploader';
 import { UrlFetcher } from './components/UrlFetcher';
 import { SvgDisplay } from './components/SvgDisplay';
+import { isTextInput } from './components/PathEditor';
 import { Spinner } from './components/Spinner';
-import { traceImage, generateSvg } from './services/vectorizerService';
-import type { TracedData, GenerateSvgOptions } from './services/vectorizerService';
+import { LayerPanel } from './components/LayerPanel';
+import { traceImage, generateSvg, DEFAULT_TRACE_OPTIONS, DEFAULT_SVG_OPTIONS, PIXEL_ART_PRESET } from './services/vectorizerService';
+import { DEFAULT_OPTIMIZE_OPTIONS } from './services/svgOptimizer';
+import type { TracedData, TraceOptions, TraceProgress, PathMode, CurveType, HoleMode, LayeringMode, ContourTracer, QuantizerMethod, TraceMode } from './services/vectorizerService';
 import { Header } from './components/Header';
 import { UploadIcon, LinkIcon, ResetIcon } from './components/icons';
 import type { UploadedImage } from './types';
 import { fetchImagesFromUrl, imageUrlToDataUrl } from './services/imageFetcherService';
 import { ImageCropper } from './components/ImageCropper';
 import type { CropData } from './components/ImageCropper';
-import { removeImageBackground } from './services/backgroundRemoverService';
+import { removeImageBackground, loadImagePixels, DEFAULT_BACKGROUND_OPTIONS } from './services/backgroundRemoverService';
+import type { BackgroundDetectionSetting, BackgroundRemovalMode, DetectedBackground, PickedBackgroundColor } from './services/backgroundRemoverService';
+import { hexToColor } from './services/vectorizerCore';
+import type { Color, Point } from './services/vectorizerCore';
+import { applySilhouetteColor, areLayersEdited, createLayers, getEditableShapes, layersToTracedData } from './services/layerService';
+import { EMPTY_EDIT_HISTORY } from './services/pathEditService';
+import type { EditHistory } from './services/pathEditService';
+import type { Layer } from './services/layerService';
+import { autoTune } from './services/autoTuneService';
+import type { AutoTuneResult, AutoTuneTarget } from './services/autoTuneService';
+import { compareRasters, rasterizeSvg } from './services/fidelityService';
+import { AutoTunePanel } from './components/AutoTunePanel';
+import { SnapshotPanel } from './components/SnapshotPanel';
+import { BatchQueue } from './components/BatchQueue';
+import { applyOverrides, convertBatchItem, createSvgZip, getItemName, isBatchItemPending } from './services/batchService';
+import type { BatchItem } from './services/batchService';
+import {
+  DEFAULT_CONVERSION_SETTINGS,
+  applyOutputOptimizer,
+  areSettingsEqual,
+  createSettingsHistory,
+  getBackgroundRemovalOptions,
+  recordSettings,
+  redoSettings,
+  undoSettings,
+} from './services/settingsService';
+import type { ConversionSettings, SettingsHistory, Snapshot } from './services/settingsService';
 
 
 type SourceTab = 'upload' | 'url';
-type Stage = 'upload' | 'crop' | 'result';
+// 'batch' replaces crop and result when several images are converted together.
+type Stage = 'upload' | 'crop' | 'result' | 'batch';
+
+const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
 
 const App: React.FC = () => {
   const [sourceTab, setSourceTab] = useState<SourceTab>('upload');
@@ -35,39 +67,211 @@ const App: React.FC = () => {
   const [urlError, setUrlError] = useState<string | null>(null);
 
   const [tracedData, setTracedData] = useState<TracedData | null>(null);
-  const [simplificationLevel, setSimplificationLevel] = useState<number>(2);
-  const [tracingTolerance, setTracingTolerance] = useState<number>(2);
+  // Layer edits (visibility, color, order, merges) applied on top of the traced data.
+  const [layers, setLayers] = useState<Layer[]>([]);
+  // Node edits made in the preview; they refer to the current trace and are dropped with it.
+  const [editHistory, setEditHistory] = useState<EditHistory>(EMPTY_EDIT_HISTORY);
+  const [traceProgress, setTraceProgress] = useState<TraceProgress | null>(null);
+  const [simplificationLevel, setSimplificationLevel] = useState<number>(DEFAULT_SVG_OPTIONS.simplification);
+  const [traceMode, setTraceMode] = useState<TraceMode>(DEFAULT_TRACE_OPTIONS.mode);
+  const [tracingTolerance, setTracingTolerance] = useState<number>(DEFAULT_TRACE_OPTIONS.tracingTolerance);
+  const [quantizer, setQuantizer] = useState<QuantizerMethod>(DEFAULT_TRACE_OPTIONS.quantizer);
+  const [maxColors, setMaxColors] = useState<number>(DEFAULT_TRACE_OPTIONS.maxColors);
+  const [layering, setLayering] = useState<LayeringMode>(DEFAULT_TRACE_OPTIONS.layering);
+  const [tracer, setTracer] = useState<ContourTracer>(DEFAULT_TRACE_OPTIONS.tracer);
+  const [silhouetteThreshold, setSilhouetteThreshold] = useState<number | 'auto'>(DEFAULT_TRACE_OPTIONS.threshold);
+  const [silhouetteInvert, setSilhouetteInvert] = useState<boolean>(DEFAULT_TRACE_OPTIONS.invert);
+  const [silhouetteColor, setSilhouetteColor] = useState<string>(DEFAULT_SVG_OPTIONS.silhouetteColor);
+  const [pathMode, setPathMode] = useState<PathMode>(DEFAULT_SVG_OPTIONS.pathMode);
+  const [curveType, setCurveType] = useState<CurveType>(DEFAULT_SVG_OPTIONS.curveType);
+  const [detectPrimitives, setDetectPrimitives] = useState<boolean>(DEFAULT_SVG_OPTIONS.detectPrimitives);
+  const [primitiveTolerance, setPrimitiveTolerance] = useState<number>(DEFAULT_SVG_OPTIONS.primitiveTolerance);
+  const [holeMode, setHoleMode] = useState<HoleMode>(DEFAULT_SVG_OPTIONS.holeMode);
+  const [crispEdges, setCrispEdges] = useState<boolean>(DEFAULT_SVG_OPTIONS.crispEdges);
+  const [optimizeEnabled, setOptimizeEnabled] = useState<boolean>(true);
+  const [optimizePrecision, setOptimizePrecision] = useState<number>(DEFAULT_OPTIMIZE_OPTIONS.precision);
+  // Size of the SVG before optimization, shown next to the optimized size.
+  const [unoptimizedSize, setUnoptimizedSize] = useState<number | null>(null);
   
-  const [strokeEnabled, setStrokeEnabled] = useState<boolean>(false);
-  const [strokeColor, setStrokeColor] = useState<string>('#000000');
-  const [strokeWidth, setStrokeWidth] = useState<number>(1);
-  const [shouldRemoveBackground, setShouldRemoveBackground] = useState<boolean>(true);
+  const [strokeEnabled, setStrokeEnabled] = useState<boolean>(DEFAULT_SVG_OPTIONS.strokeEnabled);
+  const [strokeColor, setStrokeColor] = useState<string>(DEFAULT_SVG_OPTIONS.strokeColor);
+  const [strokeWidth, setStrokeWidth] = useState<number>(DEFAULT_SVG_OPTIONS.strokeWidth);
+  const [backgroundMode, setBackgroundMode] = useState<BackgroundRemovalMode>(DEFAULT_BACKGROUND_OPTIONS.mode);
+  const [backgroundSeeds, setBackgroundSeeds] = useState<Point[]>([]);
+  const [backgroundFeather, setBackgroundFeather] = useState<number>(DEFAULT_BACKGROUND_OPTIONS.feather);
+  const [backgroundDetection, setBackgroundDetection] = useState<BackgroundDetectionSetting>(DEFAULT_BACKGROUND_OPTIONS.model);
+  const [backgroundTolerance, setBackgroundTolerance] = useState<number>(DEFAULT_BACKGROUND_OPTIONS.tolerance);
+  const [pickedColors, setPickedColors] = useState<PickedBackgroundColor[]>([]);
+  const [removedBackground, setRemovedBackground] = useState<DetectedBackground | null>(null);
+  const [settingsHistory, setSettingsHistory] = useState<SettingsHistory>(() => createSettingsHistory(DEFAULT_CONVERSION_SETTINGS));
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [selectedBatchId, setSelectedBatchId] = useState<number | null>(null);
+  const [isBatchConverting, setIsBatchConverting] = useState(false);
   
   const isInitialMount = useRef(true);
+  const traceAbortRef = useRef<AbortController | null>(null);
+  const nextSnapshotIdRef = useRef(1);
+  const nextBatchIdRef = useRef(1);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  // The queue as last rendered, so a running batch sees items removed or overridden meanwhile.
+  const batchItemsRef = useRef<BatchItem[]>([]);
+  batchItemsRef.current = batchItems;
+  // Set when a snapshot brings back its own trace, so the re-trace effect can skip redoing it.
+  const restoredTraceRef = useRef<{ image: UploadedImage; trace: ConversionSettings['trace'] } | null>(null);
+  // The silhouette color the layers were last filled with, to tell them from recolored layers.
+  const appliedSilhouetteColorRef = useRef<Color | undefined>(undefined);
+
+  // Cancel any running trace when the app unmounts.
+  useEffect(() => () => traceAbortRef.current?.abort(), []);
+
+  const traceOptions = useMemo<ConversionSettings['trace']>(() => ({
+    mode: traceMode,
+    tracingTolerance,
+    quantizer,
+    maxColors,
+    layering,
+    tracer,
+    threshold: silhouetteThreshold,
+    invert: silhouetteInvert,
+  }), [traceMode, tracingTolerance, quantizer, maxColors, layering, tracer, silhouetteThreshold, silhouetteInvert]);
+
+  const svgOptions = useMemo<ConversionSettings['svg']>(() => ({
+    simplification: simplificationLevel,
+    strokeEnabled,
+    strokeColor,
+    strokeWidth,
+    pathMode,
+    curveType,
+    detectPrimitives,
+    primitiveTolerance,
+    holeMode,
+    crispEdges,
+    silhouetteColor,
+  }), [simplificationLevel, strokeEnabled, strokeColor, strokeWidth, pathMode, curveType, detectPrimitives, primitiveTolerance, holeMode, crispEdges, silhouetteColor]);
+
+  const settings = useMemo<ConversionSettings>(() => ({
+    trace: traceOptions,
+    svg: svgOptions,
+    optimize: { enabled: optimizeEnabled, precision: optimizePrecision },
+    background: { mode: backgroundMode, detection: backgroundDetection, tolerance: backgroundTolerance, feather: backgroundFeather },
+  }), [traceOptions, svgOptions, optimizeEnabled, optimizePrecision, backgroundMode, backgroundDetection, backgroundTolerance, backgroundFeather]);
+
+  const applySettings = useCallback(({ trace, svg, optimize, background }: ConversionSettings) => {
+    setTraceMode(trace.mode);
+    setTracingTolerance(trace.tracingTolerance);
+    setQuantizer(trace.quantizer);
+    setMaxColors(trace.maxColors);
+    setLayering(trace.layering);
+    setTracer(trace.tracer);
+    setSilhouetteThreshold(trace.threshold);
+    setSilhouetteInvert(trace.invert);
+    setSimplificationLevel(svg.simplification);
+    setStrokeEnabled(svg.strokeEnabled);
+    setStrokeColor(svg.strokeColor);
+    setStrokeWidth(svg.strokeWidth);
+    setPathMode(svg.pathMode);
+    setCurveType(svg.curveType);
+    setDetectPrimitives(svg.detectPrimitives);
+    setPrimitiveTolerance(svg.primitiveTolerance);
+    setHoleMode(svg.holeMode);
+    setCrispEdges(svg.crispEdges);
+    setSilhouetteColor(svg.silhouetteColor);
+    setOptimizeEnabled(optimize.enabled);
+    setOptimizePrecision(optimize.precision);
+    setBackgroundMode(background.mode);
+    setBackgroundDetection(background.detection);
+    setBackgroundTolerance(background.tolerance);
+    setBackgroundFeather(background.feather);
+  }, []);
+
+  // Record settings once they settle, so dragging a slider becomes a single undo step.
+  useEffect(() => {
+    const handler = setTimeout(() => setSettingsHistory(history => recordSettings(history, settings)), 400);
+    return () => clearTimeout(handler);
+  }, [settings]);
+
+  // Changes that have not been recorded yet still count as the latest state.
+  const handleUndoSettings = useCallback(() => {
+    const history = undoSettings(recordSettings(settingsHistory, settings));
+    setSettingsHistory(history);
+    applySettings(history.present);
+  }, [settingsHistory, settings, applySettings]);
+
+  const handleRedoSettings = useCallback(() => {
+    const history = redoSettings(recordSettings(settingsHistory, settings));
+    setSettingsHistory(history);
+    applySettings(history.present);
+  }, [settingsHistory, settings, applySettings]);
+
+  // The node editor handles these keys itself while it is open and marks them as handled.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.defaultPrevented || isTextInput(e.target) || !(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndoSettings();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedoSettings();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndoSettings, handleRedoSettings]);
+
+  // Applies the output optimizer, when enabled, to freshly generated markup.
+  const optimizeOutput = useCallback(
+    (code: string) => applyOutputOptimizer(code, { enabled: optimizeEnabled, precision: optimizePrecision }, holeMode),
+    [optimizeEnabled, optimizePrecision, holeMode],
+  );
+
+  // A silhouette's layer is filled with the silhouette color unless it was recolored in the layer
+  // panel, so the layer swatch always shows the color that is drawn.
+  const silhouetteFill = useMemo(() => hexToColor(silhouetteColor), [silhouetteColor]);
+  useEffect(() => {
+    if (!tracedData) return;
+    const previous = appliedSilhouetteColorRef.current;
+    appliedSilhouetteColorRef.current = silhouetteFill;
+    setLayers(current => applySilhouetteColor(tracedData, current, silhouetteFill, previous));
+  }, [tracedData, silhouetteFill]);
+
+  // The traced shapes as shown: visible layers with their colors, and node edits applied.
+  const visibleTracedData = useMemo(
+    () => tracedData ? layersToTracedData(tracedData, layers, editHistory.edits) : null,
+    [tracedData, layers, editHistory],
+  );
 
   // Generate SVG from traced data (fast, real-time updates)
   useEffect(() => {
-    if (tracedData) {
-      const options: GenerateSvgOptions = {
-        simplification: simplificationLevel,
-        strokeEnabled,
-        strokeColor,
-        strokeWidth,
-      };
-      const newSvgCode = generateSvg(tracedData, options);
-      setSvgCode(newSvgCode);
+    if (visibleTracedData) {
+      const newSvgCode = generateSvg(visibleTracedData, svgOptions);
+      setUnoptimizedSize(optimizeEnabled ? new Blob([newSvgCode]).size : null);
+      setSvgCode(optimizeOutput(newSvgCode));
     }
-  }, [tracedData, simplificationLevel, strokeEnabled, strokeColor, strokeWidth]);
+  }, [visibleTracedData, svgOptions, optimizeEnabled, optimizeOutput]);
 
-  // Central function for running the vectorization process (slow)
-  const runTracing = useCallback(async (image: UploadedImage, tolerance: number) => {
+  // Central function for running the vectorization process (slow).
+  // Starting a new trace cancels the one already running; the cancelled call rejects with an AbortError.
+  const runTracing = useCallback(async (image: UploadedImage, traceOptions: TraceOptions) => {
+    traceAbortRef.current?.abort();
+    const controller = new AbortController();
+    traceAbortRef.current = controller;
     try {
       setError(null);
       setSvgCode(null);
       setTracedData(null);
-      const newTracedData = await traceImage(image.dataUrl, { tracingTolerance: tolerance });
+      setTraceProgress(null);
+      const newTracedData = await traceImage(image.dataUrl, traceOptions, {
+        signal: controller.signal,
+        onProgress: setTraceProgress,
+      });
       setTracedData(newTracedData);
+      setLayers(createLayers(newTracedData));
+      setEditHistory(EMPTY_EDIT_HISTORY);
     } catch (err) {
+      if (isAbortError(err)) throw err;
       console.error(err);
       const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred.';
       setError(`Failed to convert image. ${errorMessage}`);
@@ -75,18 +279,20 @@ const App: React.FC = () => {
     }
   }, []);
   
-  const rerunTracing = useCallback(async (image: UploadedImage, tolerance: number) => {
+  const rerunTracing = useCallback(async (image: UploadedImage, traceOptions: TraceOptions) => {
     setIsLoading(true);
+    let cancelled = false;
     try {
-        await runTracing(image, tolerance);
+        await runTracing(image, traceOptions);
     } catch (e) {
-        // error is set by runTracing
+        // error is set by runTracing; a cancelled run leaves loading state to the run that replaced it
+        cancelled = isAbortError(e);
     } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsLoading(false);
     }
   }, [runTracing]);
   
-  // Debounced effect to re-run tracing when tolerance changes (slow)
+  // Debounced effect to re-run tracing when tolerance or palette settings change (slow)
   useEffect(() => {
     if (isInitialMount.current) {
         isInitialMount.current = false;
@@ -96,21 +302,95 @@ const App: React.FC = () => {
     if (!processedImage) {
         return;
     }
+
+    const restored = restoredTraceRef.current;
+    restoredTraceRef.current = null;
+    if (restored && restored.image === processedImage && areSettingsEqual(restored.trace, traceOptions)) {
+        return;
+    }
     
     setSvgCode(null);
 
     const handler = setTimeout(() => {
-        rerunTracing(processedImage, tracingTolerance);
+        rerunTracing(processedImage, traceOptions);
     }, 500);
 
     return () => clearTimeout(handler);
-  }, [tracingTolerance, rerunTracing, processedImage]);
+  }, [traceOptions, rerunTracing, processedImage]);
 
   const handleImageSelected = useCallback((image: UploadedImage) => {
       setOriginalImage(image);
+      setBackgroundSeeds([]);
+      setPickedColors([]);
       setStage('crop');
   }, []);
 
+  // Several images skip cropping and go to the batch queue, which converts them with the shared settings.
+  const startBatch = useCallback((sources: { image?: UploadedImage; url?: string; name: string }[]) => {
+    traceAbortRef.current?.abort();
+    setError(null);
+    setSvgCode(null);
+    setTracedData(null);
+    setLayers([]);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setProcessedImage(null);
+    const items = sources.map((source): BatchItem => ({ ...source, id: nextBatchIdRef.current++, overrides: {}, status: 'queued' }));
+    setBatchItems(items);
+    setSelectedBatchId(items[0]?.id ?? null);
+    setStage('batch');
+  }, []);
+
+  const handleImagesSelected = useCallback((images: UploadedImage[]) => {
+    startBatch(images.map((image, index) => ({ image, name: getItemName(image.name ?? '', `image-${index + 1}`) })));
+  }, [startBatch]);
+
+  const handleUrlBatchSelect = useCallback((imageUrls: string[]) => {
+    startBatch(imageUrls.map((url, index) => ({ url, name: getItemName(url, `image-${index + 1}`) })));
+  }, [startBatch]);
+
+  // Converts every pending item one after another, so only one trace runs at a time.
+  const handleConvertBatch = useCallback(async () => {
+    batchAbortRef.current?.abort();
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setIsBatchConverting(true);
+    const updateItem = (id: number, update: Partial<BatchItem>) =>
+      setBatchItems(items => items.map(item => item.id === id ? { ...item, ...update } : item));
+
+    const pendingIds = batchItemsRef.current.filter(item => isBatchItemPending(item, settings)).map(item => item.id);
+    for (const id of pendingIds) {
+      const item = batchItemsRef.current.find(candidate => candidate.id === id);
+      if (!item) continue;
+      if (controller.signal.aborted) break;
+      updateItem(id, { status: 'converting', error: undefined });
+      try {
+        const svg = await convertBatchItem(item, settings, controller.signal);
+        updateItem(id, { status: 'done', svgCode: svg, convertedWith: applyOverrides(settings, item.overrides) });
+      } catch (err) {
+        if (isAbortError(err)) {
+          updateItem(id, { status: item.svgCode ? 'done' : 'queued' });
+          break;
+        }
+        updateItem(id, { status: 'error', error: err instanceof Error ? err.message : 'Conversion failed.' });
+      }
+    }
+    if (batchAbortRef.current === controller) {
+      batchAbortRef.current = null;
+      setIsBatchConverting(false);
+    }
+  }, [settings]);
+
+  const handleDownloadBatchZip = useCallback(() => {
+    const url = URL.createObjectURL(createSvgZip(batchItems));
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'converted-svgs.zip';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }, [batchItems]);
+
   const handleUrlImageSelect = useCallback(async (imageUrl: string) => {
     setError(null);
     try {
@@ -122,7 +402,23 @@ const App: React.FC = () => {
     }
   }, [handleImageSelected]);
   
+  // Switching these settings re-traces the image through the debounced effect above.
+  const handleApplyPixelArtPreset = () => {
+    const { trace, svg } = PIXEL_ART_PRESET;
+    setTraceMode(trace.mode);
+    setTracingTolerance(trace.tracingTolerance);
+    setQuantizer(trace.quantizer);
+    setMaxColors(trace.maxColors);
+    setLayering(trace.layering);
+    setTracer(trace.tracer);
+    setPathMode(svg.pathMode ?? DEFAULT_SVG_OPTIONS.pathMode);
+    setDetectPrimitives(svg.detectPrimitives ?? DEFAULT_SVG_OPTIONS.detectPrimitives);
+    setCrispEdges(svg.crispEdges ?? DEFAULT_SVG_OPTIONS.crispEdges);
+  };
+
   const handleReset = () => {
+    traceAbortRef.current?.abort();
+    traceAbortRef.current = null;
     setOriginalImage(null);
     setProcessedImage(null);
     setSvgCode(null);
@@ -130,16 +426,114 @@ const App: React.FC = () => {
     setIsLoading(false);
     setIsRemovingBackground(false);
     setTracedData(null);
-    setSimplificationLevel(2);
-    setTracingTolerance(2);
-    setStrokeEnabled(false);
-    setStrokeColor('#000000');
-    setStrokeWidth(1);
-    setShouldRemoveBackground(true);
+    setLayers([]);
+    setEditHistory(EMPTY_EDIT_HISTORY);
+    setTraceProgress(null);
+    // Going back to the defaults is recorded like any other change, so it can be undone.
+    applySettings(DEFAULT_CONVERSION_SETTINGS);
+    // Snapshots show the previous image and cannot be restored onto a new one.
+    setSnapshots([]);
+    batchAbortRef.current?.abort();
+    batchAbortRef.current = null;
+    setIsBatchConverting(false);
+    setBatchItems([]);
+    setSelectedBatchId(null);
+    setBackgroundSeeds([]);
+    setPickedColors([]);
+    setRemovedBackground(null);
     setStage('upload');
     isInitialMount.current = true; 
   };
   
+  const getBackgroundOptions = useCallback((seeds: Point[], picks: PickedBackgroundColor[]) => getBackgroundRemovalOptions(
+      { mode: backgroundMode, detection: backgroundDetection, tolerance: backgroundTolerance, feather: backgroundFeather },
+      seeds,
+      picks,
+  ), [backgroundMode, backgroundDetection, backgroundTolerance, backgroundFeather]);
+
+  const previewBackgroundOptions = useMemo(
+      () => getBackgroundOptions(backgroundSeeds, pickedColors),
+      [getBackgroundOptions, backgroundSeeds, pickedColors],
+  );
+
+  // A new trace starts with fresh layers and no node edits, so while either is edited auto-tune
+  // keeps the current tolerance.
+  const isToleranceLocked = useMemo(
+    () => !!tracedData && (editHistory.edits.length > 0 || areLayersEdited(tracedData, layers, silhouetteFill)),
+    [tracedData, layers, editHistory, silhouetteFill],
+  );
+
+  // Searches for settings that meet a size or fidelity target. The cached trace (with the
+  // current layer edits) is reused; other tolerances are traced in a separate worker without
+  // touching the displayed result.
+  const handleAutoTune = useCallback(async (
+    target: AutoTuneTarget,
+    control: { signal: AbortSignal; onEvaluation: (count: number) => void },
+  ): Promise<AutoTuneResult> => {
+    if (!tracedData || !processedImage) {
+      throw new Error('Convert an image before auto-tuning.');
+    }
+    let source: ImageData | null = null;
+    return autoTune(target, {
+      tracedData: layersToTracedData(tracedData, layers, editHistory.edits),
+      tracingTolerance,
+      render: (data, simplification) => optimizeOutput(generateSvg(data, { ...svgOptions, simplification })),
+      retrace: isToleranceLocked ? undefined : (tolerance) => traceImage(
+        processedImage.dataUrl,
+        { ...traceOptions, tracingTolerance: tolerance },
+        { signal: control.signal },
+      ),
+      measure: async (code) => {
+        source ??= await loadImagePixels(processedImage);
+        const rendered = await rasterizeSvg(code, source.width, source.height);
+        return compareRasters(source, rendered, []).score;
+      },
+      onEvaluation: control.onEvaluation,
+      signal: control.signal,
+    });
+  }, [tracedData, processedImage, layers, editHistory, tracingTolerance, optimizeOutput, svgOptions, traceOptions, isToleranceLocked]);
+
+  const handleApplyAutoTune = useCallback((result: AutoTuneResult) => {
+    setSimplificationLevel(result.simplification);
+    setTracingTolerance(result.tracingTolerance);
+  }, []);
+
+  const handlePinSnapshot = useCallback((name: string) => {
+    if (!svgCode || !tracedData || !processedImage) return;
+    const id = nextSnapshotIdRef.current++;
+    setSnapshots(current => [...current, {
+      id,
+      name: name.trim() || `Snapshot ${id}`,
+      settings,
+      svgCode,
+      image: processedImage,
+      tracedData,
+      layers,
+      editHistory,
+    }]);
+  }, [svgCode, tracedData, processedImage, settings, layers, editHistory]);
+
+  // Brings back a pinned result together with its trace, so nothing is traced again.
+  const handleRestoreSnapshot = useCallback((snapshot: Snapshot) => {
+    traceAbortRef.current?.abort();
+    restoredTraceRef.current = { image: snapshot.image, trace: snapshot.settings.trace };
+    applySettings(snapshot.settings);
+    setProcessedImage(snapshot.image);
+    setTracedData(snapshot.tracedData);
+    setLayers(snapshot.layers);
+    setEditHistory(snapshot.editHistory);
+    setError(null);
+    setIsLoading(false);
+  }, [applySettings]);
+
+  const handleDeleteSnapshot = useCallback((id: number) => {
+    setSnapshots(current => current.filter(snapshot => snapshot.id !== id));
+  }, []);
+
+  // Memoized so the comparison view only re-measures when the layers actually change.
+  const visibleLayerColors = useMemo(() => layers.filter(layer => layer.visible).map(layer => layer.color), [layers]);
+  const editableShapes = useMemo(() => tracedData ? getEditableShapes(tracedData, layers) : [], [tracedData, layers]);
+
   const handleConvertFull = useCallback(async () => {
       if (!originalImage) return;
 
@@ -150,24 +544,34 @@ const App: React.FC = () => {
       setTracedData(null);
       setStage('result');
       
+      let cancelled = false;
       try {
           let imageToConvert = originalImage;
-          if (shouldRemoveBackground) {
+          setRemovedBackground(null);
+          if (backgroundMode !== 'none' || pickedColors.length > 0) {
               setIsRemovingBackground(true);
-              imageToConvert = await removeImageBackground(originalImage);
+              const result = await removeImageBackground(originalImage, getBackgroundOptions(backgroundSeeds, pickedColors));
+              imageToConvert = result.image;
+              setRemovedBackground(result.background);
           }
           setIsRemovingBackground(false);
           setProcessedImage(imageToConvert);
-          await runTracing(imageToConvert, tracingTolerance);
+          await runTracing(imageToConvert, traceOptions);
       } catch (err) {
+          if (isAbortError(err)) {
+              cancelled = true;
+              return;
+          }
           const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during conversion.';
           setError(errorMessage);
           console.error("Conversion process failed:", err);
       } finally {
-          setIsLoading(false);
-          setIsRemovingBackground(false);
+          if (!cancelled) {
+              setIsLoading(false);
+              setIsRemovingBackground(false);
+          }
       }
-  }, [originalImage, runTracing, tracingTolerance, shouldRemoveBackground]);
+  }, [originalImage, runTracing, traceOptions, backgroundMode, backgroundSeeds, pickedColors, getBackgroundOptions]);
 
   const handleCropAndConvert = useCallback(async (crop: CropData) => {
     if (!originalImage) return;
@@ -179,6 +583,7 @@ const App: React.FC = () => {
     setTracedData(null);
     setStage('result');
     
+    let cancelled = false;
     try {
         const croppedImage = await new Promise<UploadedImage>((resolve, reject) => {
             const image = new Image();
@@ -209,22 +614,39 @@ const App: React.FC = () => {
         });
 
         let imageToConvert = croppedImage;
-        if (shouldRemoveBackground) {
+        setRemovedBackground(null);
+        if (backgroundMode !== 'none' || pickedColors.length > 0) {
             setIsRemovingBackground(true);
-            imageToConvert = await removeImageBackground(croppedImage);
+            // Seeds and picked regions were chosen on the full image; shift them into the cropped frame.
+            const isInCrop = (point: Point) => point.x >= 0 && point.y >= 0 && point.x < crop.width && point.y < crop.height;
+            const croppedSeeds = backgroundSeeds
+                .map(seed => ({ x: seed.x - crop.x, y: seed.y - crop.y }))
+                .filter(isInCrop);
+            const croppedPicks = pickedColors
+                .map(pick => pick.point ? { ...pick, point: { x: pick.point.x - crop.x, y: pick.point.y - crop.y } } : pick)
+                .filter(pick => !pick.point || isInCrop(pick.point));
+            const result = await removeImageBackground(croppedImage, getBackgroundOptions(croppedSeeds, croppedPicks));
+            imageToConvert = result.image;
+            setRemovedBackground(result.background);
         }
         setIsRemovingBackground(false);
         setProcessedImage(imageToConvert);
-        await runTracing(imageToConvert, tracingTolerance);
+        await runTracing(imageToConvert, traceOptions);
     } catch (err) {
+        if (isAbortError(err)) {
+            cancelled = true;
+            return;
+        }
         const errorMessage = err instanceof Error ? err.message : 'An unknown error occurred during conversion.';
         setError(errorMessage);
         console.error("Conversion process failed:", err);
     } finally {
-        setIsLoading(false);
-        setIsRemovingBackground(false);
+        if (!cancelled) {
+            setIsLoading(false);
+            setIsRemovingBackground(false);
+        }
     }
-  }, [originalImage, runTracing, tracingTolerance, shouldRemoveBackground]);
+  }, [originalImage, runTracing, traceOptions, backgroundMode, backgroundSeeds, pickedColors, getBackgroundOptions]);
 
 
   const handleFetchUrlImages = async () => {
@@ -292,9 +714,10 @@ const App: React.FC = () => {
                 </button>
             </div>
             <div className="flex-grow min-h-0">
-                {sourceTab === 'upload' && <ImageUploader onImageUpload={handleImageSelected} disabled={isLoading} />}
+                {sourceTab === 'upload' && <ImageUploader onImageUpload={handleImageSelected} onImagesUpload={handleImagesSelected} disabled={isLoading} />}
                 {sourceTab === 'url' && <UrlFetcher 
                   onImageSelect={handleUrlImageSelect} 
+                  onBatchSelect={handleUrlBatchSelect}
                   disabled={isLoading}
                   url={url}
                   setUrl={setUrl}
@@ -314,10 +737,46 @@ const App: React.FC = () => {
                 onCrop={handleCropAndConvert}
                 onConvertFull={handleConvertFull}
                 onReset={handleReset}
-                shouldRemoveBackground={shouldRemoveBackground}
-                onShouldRemoveBackgroundChange={setShouldRemoveBackground}
+                backgroundMode={backgroundMode}
+                onBackgroundModeChange={setBackgroundMode}
+                backgroundSeeds={backgroundSeeds}
+                onBackgroundSeedsChange={setBackgroundSeeds}
+                backgroundFeather={backgroundFeather}
+                onBackgroundFeatherChange={setBackgroundFeather}
+                backgroundDetection={backgroundDetection}
+                onBackgroundDetectionChange={setBackgroundDetection}
+                backgroundTolerance={backgroundTolerance}
+                onBackgroundToleranceChange={setBackgroundTolerance}
+                pickedColors={pickedColors}
+                onPickedColorsChange={setPickedColors}
+                backgroundOptions={previewBackgroundOptions}
             />
         );
+      case 'batch':
+        return (
+          <div className="flex flex-col h-full min-h-0">
+            <div className="flex-grow min-h-[16rem]">
+              <BatchQueue
+                items={batchItems}
+                onItemsChange={setBatchItems}
+                settings={settings}
+                selectedId={selectedBatchId}
+                onSelect={setSelectedBatchId}
+                isConverting={isBatchConverting}
+                onConvert={handleConvertBatch}
+                onCancel={() => batchAbortRef.current?.abort()}
+                onDownloadZip={handleDownloadBatchZip}
+              />
+            </div>
+            <button
+                onClick={handleReset}
+                className="mt-4 w-full flex items-center justify-center bg-gray-600 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded-lg transition-colors duration-300"
+                >
+                <ResetIcon className="w-5 h-5 mr-2" />
+                Start Over
+            </button>
+          </div>
+        );
       case 'result':
         if (!processedImage) return null; // Should not happen
         return (
@@ -325,6 +784,43 @@ const App: React.FC = () => {
             <div className="relative w-full h-full flex items-center justify-center p-6 border-2 border-dashed rounded-lg border-gray-600">
                 <img src={processedImage.dataUrl} alt="Preview of converted image" className="max-w-full max-h-full object-contain rounded-md"/>
             </div>
+            {removedBackground && (
+                <div className="mt-3 flex items-center space-x-2 text-sm text-gray-400">
+                    <span>Removed background{removedBackground.model !== 'solid' ? ` (${removedBackground.model} gradient)` : ''}:</span>
+                    {removedBackground.colors.map((color, index) => (
+                        <span
+                            key={index}
+                            className="w-5 h-5 rounded border border-gray-500"
+                            style={{ backgroundColor: `rgb(${color.r}, ${color.g}, ${color.b})` }}
+                            title={`rgb(${color.r}, ${color.g}, ${color.b})`}
+                        />
+                    ))}
+                </div>
+            )}
+            {tracedData && !isLoading && (
+                <div className="mt-4 w-full">
+                    <LayerPanel layers={layers} onLayersChange={setLayers} />
+                </div>
+            )}
+            {tracedData && !isLoading && (
+                <div className="mt-4 w-full">
+                    <AutoTunePanel onAutoTune={handleAutoTune} onApply={handleApplyAutoTune} isToleranceLocked={isToleranceLocked} />
+                </div>
+            )}
+            <div className="mt-4 w-full">
+                <SnapshotPanel
+                    snapshots={snapshots}
+                    currentSvgCode={svgCode}
+                    canPin={!!svgCode && !!tracedData && !isLoading}
+                    onPin={handlePinSnapshot}
+                    onRestore={handleRestoreSnapshot}
+                    onDelete={handleDeleteSnapshot}
+                    canUndo={settingsHistory.past.length > 0 || !areSettingsEqual(settingsHistory.present, settings)}
+                    canRedo={settingsHistory.future.length > 0 && areSettingsEqual(settingsHistory.present, settings)}
+                    onUndo={handleUndoSettings}
+                    onRedo={handleRedoSettings}
+                />
+            </div>
             <button
                 onClick={handleReset}
                 disabled={isLoading}
@@ -338,28 +834,87 @@ const App: React.FC = () => {
     }
   }
 
+  // In a batch the right panel previews the selected item, with the shared settings around it.
+  const selectedBatchItem = stage === 'batch' ? batchItems.find(item => item.id === selectedBatchId) : undefined;
+  const displayedSvgCode = stage === 'batch' ? selectedBatchItem?.svgCode ?? null : svgCode;
+
   return (
     <div className="min-h-screen bg-gray-900 text-gray-200 font-sans flex flex-col">
       <Header />
       <main className="flex-grow container mx-auto p-4 md:p-8 flex flex-col">
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 flex-grow">
           <div className="bg-gray-800/50 rounded-2xl p-6 flex flex-col border border-gray-700 shadow-2xl">
-            <h2 className="text-2xl font-bold mb-4 text-gray-100">{stage === 'result' ? '1. Converted Source' : '1. Select Image'}</h2>
+            <h2 className="text-2xl font-bold mb-4 text-gray-100">{stage === 'result' ? '1. Converted Source' : stage === 'batch' ? '1. Batch Queue' : '1. Select Image'}</h2>
             {renderLeftPanel()}
           </div>
 
           <div className="bg-gray-800/50 rounded-2xl p-6 flex flex-col border border-gray-700 shadow-2xl">
             <h2 className="text-2xl font-bold mb-4 text-gray-100">2. Get SVG Result</h2>
             <div className="flex-grow bg-gray-900/70 rounded-lg p-4 flex items-center justify-center">
-              {isLoading && <Spinner message={isRemovingBackground ? 'Removing background...' : 'Converting to SVG...'} />}
+              {isLoading && (
+                <Spinner
+                  message={
+                    isRemovingBackground
+                      ? 'Removing background...'
+                      : traceProgress && traceProgress.totalLayers > 0
+                        ? `Converting to SVG... (layer ${traceProgress.completedLayers} of ${traceProgress.totalLayers})`
+                        : 'Converting to SVG...'
+                  }
+                  progress={!isRemovingBackground && traceProgress && traceProgress.totalLayers > 0
+                    ? traceProgress.completedLayers / traceProgress.totalLayers
+                    : undefined}
+                />
+              )}
               {error && <p className="text-red-400 text-center">{error}</p>}
-              {!isLoading && !error && svgCode && (
+              {!isLoading && !error && displayedSvgCode && (
                 <SvgDisplay 
-                  svgCode={svgCode} 
+                  svgCode={displayedSvgCode} 
+                  sourceImage={selectedBatchItem ? selectedBatchItem.image ?? null : processedImage}
+                  layerColors={visibleLayerColors}
+                  editableShapes={editableShapes}
+                  editHistory={editHistory}
+                  onEditHistoryChange={setEditHistory}
+                  pixelEdges={tracedData?.pixelEdges ?? false}
+                  exportData={stage === 'batch' ? null : visibleTracedData}
+                  svgOptions={svgOptions}
                   simplificationLevel={simplificationLevel} 
                   onSimplificationChange={setSimplificationLevel}
+                  traceMode={traceMode}
+                  onTraceModeChange={setTraceMode}
+                  silhouetteThreshold={silhouetteThreshold}
+                  onSilhouetteThresholdChange={setSilhouetteThreshold}
+                  silhouetteInvert={silhouetteInvert}
+                  onSilhouetteInvertChange={setSilhouetteInvert}
+                  silhouetteColor={silhouetteColor}
+                  onSilhouetteColorChange={setSilhouetteColor}
                   tracingTolerance={tracingTolerance}
                   onTracingToleranceChange={setTracingTolerance}
+                  quantizer={quantizer}
+                  onQuantizerChange={setQuantizer}
+                  maxColors={maxColors}
+                  onMaxColorsChange={setMaxColors}
+                  layering={layering}
+                  onLayeringChange={setLayering}
+                  tracer={tracer}
+                  onTracerChange={setTracer}
+                  pathMode={pathMode}
+                  onPathModeChange={setPathMode}
+                  curveType={curveType}
+                  onCurveTypeChange={setCurveType}
+                  holeMode={holeMode}
+                  onHoleModeChange={setHoleMode}
+                  crispEdges={crispEdges}
+                  onCrispEdgesChange={setCrispEdges}
+                  onApplyPixelArtPreset={handleApplyPixelArtPreset}
+                  detectPrimitives={detectPrimitives}
+                  onDetectPrimitivesChange={setDetectPrimitives}
+                  primitiveTolerance={primitiveTolerance}
+                  onPrimitiveToleranceChange={setPrimitiveTolerance}
+                  optimizeEnabled={optimizeEnabled}
+                  onOptimizeEnabledChange={setOptimizeEnabled}
+                  optimizePrecision={optimizePrecision}
+                  onOptimizePrecisionChange={setOptimizePrecision}
+                  unoptimizedSize={stage === 'batch' ? null : unoptimizedSize}
                   strokeEnabled={strokeEnabled}
                   onStrokeEnabledChange={setStrokeEnabled}
                   strokeColor={strokeColor}
@@ -368,14 +923,18 @@ const App: React.FC = () => {
                   onStrokeWidthChange={setStrokeWidth}
                 />
               )}
-              {!isLoading && !error && !svgCode && (
+              {!isLoading && !error && !displayedSvgCode && (
                 <div className="text-center text-gray-500">
                   <div className="flex justify-center mb-4">
                     <div className="w-16 h-16 bg-gray-700/50 rounded-full flex items-center justify-center">
                        <UploadIcon className="w-8 h-8 text-gray-600" />
                     </div>
                   </div>
-                  <p>Your generated SVG will appear here.</p>
+                  <p>
+                    {stage === 'batch'
+                      ? 'Convert the batch, then select an item to preview it and adjust the shared settings.'
+                      : 'Your generated SVG will appear here.'}
+                  </p>
                 </div>
               )}
             </div>
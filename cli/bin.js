@@ -0,0 +1,7 @@
+#!/usr/bin/env node
+// Entry point for the `png2svg` command (`npm link` installs it). The CLI is plain TypeScript, so
+// it runs through tsx instead of a build step.
+import { register } from 'tsx/esm/api';
+
+register();
+await import('./png2svg.ts');
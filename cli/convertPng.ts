@@ -0,0 +1,61 @@
+// Headless PNG-to-SVG conversion for Node. Uses the same DOM-free core as the web app.
+
+import { PNG } from 'pngjs';
+import { traceImageData, generateSvg, DEFAULT_TRACE_OPTIONS, DEFAULT_SVG_OPTIONS } from '../services/vectorizerCore';
+import type { GenerateSvgOptions, RasterImage, TraceOptions } from '../services/vectorizerCore';
+import { removeBackgroundPixels } from '../services/backgroundRemoverService';
+import type { BackgroundRemovalOptions } from '../services/backgroundRemoverService';
+import { optimizeSvg } from '../services/svgOptimizer';
+import type { SvgOptimizeOptions } from '../services/svgOptimizer';
+
+export type ConvertOptions = {
+  trace?: TraceOptions;
+  svg?: Partial<GenerateSvgOptions>;
+  removeBackground?: boolean;
+  background?: BackgroundRemovalOptions;
+  // Optimizer settings, or false to write the unoptimized markup.
+  optimize?: SvgOptimizeOptions | false;
+};
+
+/**
+ * Decodes a PNG file into an RGBA raster.
+ * @param buffer The PNG file contents.
+ * @returns The decoded pixels.
+ */
+export const decodePng = (buffer: Buffer): RasterImage => {
+  const png = PNG.sync.read(buffer);
+  return {
+    width: png.width,
+    height: png.height,
+    data: new Uint8ClampedArray(png.data.buffer, png.data.byteOffset, png.data.length),
+  };
+};
+
+/**
+ * Vectorizes raw RGBA pixels. Unspecified options fall back to the web app defaults.
+ * @param raster The pixels to convert. Modified in place when removing the background.
+ * @param options Conversion settings.
+ * @returns The SVG markup.
+ */
+export const convertRasterToSvg = (raster: RasterImage, options: ConvertOptions = {}): string => {
+  const { trace, svg, removeBackground = false, background, optimize = {} } = options;
+  if (removeBackground) {
+    removeBackgroundPixels(raster, background);
+  }
+  const tracedData = traceImageData(raster, { ...DEFAULT_TRACE_OPTIONS, ...trace });
+  const svgOptions = { ...DEFAULT_SVG_OPTIONS, ...svg };
+  const svgCode = generateSvg(tracedData, svgOptions);
+  if (optimize === false) return svgCode;
+  // Merging paths would undo the one-path-per-component output.
+  return optimizeSvg(svgCode, { mergePaths: svgOptions.holeMode !== 'components', ...optimize });
+};
+
+/**
+ * Decodes and vectorizes a PNG file.
+ * @param buffer The PNG file contents.
+ * @param options Conversion settings.
+ * @returns The SVG markup.
+ */
+export const convertPngToSvg = (buffer: Buffer, options: ConvertOptions = {}): string => {
+  return convertRasterToSvg(decodePng(buffer), options);
+};
@@ -0,0 +1,237 @@
+// Command-line batch converter:
+//   png2svg <files | directories | globs...> [-o out.svg | -o outDir] [--colors 8] [--simplify 2]
+//           [--tolerance 1] [--quantizer kmeans] [--curves] [--primitives] [--remove-bg] [--bg-mode flood]
+
+import { parseArgs } from 'node:util';
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import { glob, isDynamicPattern } from 'tinyglobby';
+import { convertPngToSvg } from './convertPng';
+import type { ConvertOptions } from './convertPng';
+import { DEFAULT_TRACE_OPTIONS, DEFAULT_SVG_OPTIONS } from '../services/vectorizerCore';
+import { PIXEL_ART_PRESET } from '../services/vectorizerService';
+import type { ContourTracer, HoleMode, LayeringMode, QuantizerMethod } from '../services/vectorizerCore';
+import { DEFAULT_BACKGROUND_OPTIONS } from '../services/backgroundRemoverService';
+import { DEFAULT_OPTIMIZE_OPTIONS } from '../services/svgOptimizer';
+import type { BackgroundRemovalMode, BackgroundDetection, BackgroundModelSetting } from '../services/backgroundRemoverService';
+
+const USAGE = `Usage: png2svg <inputs...> [options]
+
+Inputs may be PNG files, directories (searched recursively) or glob patterns.
+
+Options:
+  -o, --output <path>       Output .svg file (single input) or directory
+      --colors <n>          Maximum palette size (default ${DEFAULT_TRACE_OPTIONS.maxColors})
+      --quantizer <name>    kmeans | median-cut | grid | exact (default ${DEFAULT_TRACE_OPTIONS.quantizer})
+      --simplify <n>        Path simplification level (default ${DEFAULT_SVG_OPTIONS.simplification})
+      --centerline          Trace line art as single strokes instead of filled outlines
+      --silhouette          Trace one single-color shape from the image brightness
+      --threshold <n|auto>  Silhouette luminance cutoff 0-255, or auto (Otsu) (default ${DEFAULT_TRACE_OPTIONS.threshold})
+      --invert              Silhouette: trace the light areas instead of the dark ones
+      --fill <color>        Silhouette fill color as #rrggbb (default ${DEFAULT_SVG_OPTIONS.silhouetteColor})
+      --tolerance <n>       Tracing tolerance / pre-trace smoothing (default ${DEFAULT_TRACE_OPTIONS.tracingTolerance})
+      --layering <mode>     separate | stacked | shared (default ${DEFAULT_TRACE_OPTIONS.layering})
+      --tracer <name>       moore | marching-squares | pixel-edges (default ${DEFAULT_TRACE_OPTIONS.tracer})
+      --pixel-art           Exact pixel-grid output with crisp edges; other options still override it
+      --curves              Fit Bezier curves instead of polylines
+      --primitives          Detect circles, ellipses, rectangles, lines and polygons
+      --holes <mode>        evenodd | nonzero | components (default ${DEFAULT_SVG_OPTIONS.holeMode})
+      --remove-bg           Remove the background color before tracing
+      --bg-mode <name>      flood (from the image edges) | global (default ${DEFAULT_BACKGROUND_OPTIONS.mode})
+      --bg-detect <name>    border (whole-border statistics) | corner (top-left pixel) (default ${DEFAULT_BACKGROUND_OPTIONS.detection})
+      --bg-model <name>     auto | solid | linear | radial, for border detection (default ${DEFAULT_BACKGROUND_OPTIONS.model})
+      --bg-colors <n>       Number of dominant border colors treated as background (default ${DEFAULT_BACKGROUND_OPTIONS.maxBackgroundColors})
+      --bg-tolerance <n>    Background color tolerance (default ${DEFAULT_BACKGROUND_OPTIONS.tolerance})
+      --feather <n>         Alpha feathering width in pixels (default ${DEFAULT_BACKGROUND_OPTIONS.feather})
+      --precision <n>       Decimal places kept in coordinates (default ${DEFAULT_OPTIMIZE_OPTIONS.precision})
+      --no-optimize         Write the SVG without size optimizations
+  -h, --help                Show this help`;
+
+type InputFile = {
+  file: string;
+  // Path relative to the output directory, preserving structure for directory inputs.
+  relativeOutput: string;
+};
+
+const QUANTIZERS: QuantizerMethod[] = ['kmeans', 'median-cut', 'grid', 'exact'];
+const HOLE_MODES: HoleMode[] = ['evenodd', 'nonzero', 'components'];
+const LAYERING_MODES: LayeringMode[] = ['separate', 'stacked', 'shared'];
+const TRACERS: ContourTracer[] = ['moore', 'marching-squares', 'pixel-edges'];
+const BACKGROUND_MODES: BackgroundRemovalMode[] = ['flood', 'global'];
+const BACKGROUND_DETECTIONS: BackgroundDetection[] = ['border', 'corner'];
+const BACKGROUND_MODELS: BackgroundModelSetting[] = ['auto', 'solid', 'linear', 'radial'];
+
+/**
+ * Returns the value if it is one of the allowed choices, otherwise throws a usage error.
+ */
+const parseChoice = <T extends string>(value: string | undefined, name: string, choices: T[], fallback: T): T => {
+  const choice = (value ?? fallback) as T;
+  if (!choices.includes(choice)) {
+    throw new Error(`--${name} must be one of ${choices.join(', ')}.`);
+  }
+  return choice;
+};
+
+const parseNumber = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed)) {
+    throw new Error(`--${name} must be a number, got "${value}".`);
+  }
+  return parsed;
+};
+
+const parseColor = (value: string | undefined, name: string, fallback: string): string => {
+  if (value === undefined) return fallback;
+  if (!/^#[0-9a-f]{6}$/i.test(value)) {
+    throw new Error(`--${name} must be a color like #1a2b3c, got "${value}".`);
+  }
+  return value;
+};
+
+const toSvgName = (file: string) => file.replace(/\.png$/i, '') + '.svg';
+
+/**
+ * Expands the positional arguments into the list of PNG files to convert.
+ */
+const collectInputs = async (patterns: string[]): Promise<InputFile[]> => {
+  const inputs: InputFile[] = [];
+  for (const pattern of patterns) {
+    if (isDynamicPattern(pattern)) {
+      const matches = await glob(pattern, { onlyFiles: true, absolute: path.isAbsolute(pattern) });
+      for (const file of matches.filter(f => /\.png$/i.test(f)).sort()) {
+        inputs.push({ file, relativeOutput: toSvgName(path.basename(file)) });
+      }
+      continue;
+    }
+
+    const stat = await fs.stat(pattern).catch(() => null);
+    if (!stat) {
+      throw new Error(`Input not found: ${pattern}`);
+    }
+    if (stat.isDirectory()) {
+      const matches = await glob('**/*.png', { cwd: pattern, onlyFiles: true, caseSensitiveMatch: false });
+      for (const file of matches.sort()) {
+        inputs.push({ file: path.join(pattern, file), relativeOutput: toSvgName(file) });
+      }
+    } else {
+      inputs.push({ file: pattern, relativeOutput: toSvgName(path.basename(pattern)) });
+    }
+  }
+  return inputs;
+};
+
+const main = async (): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      output: { type: 'string', short: 'o' },
+      colors: { type: 'string' },
+      quantizer: { type: 'string' },
+      simplify: { type: 'string' },
+      tolerance: { type: 'string' },
+      centerline: { type: 'boolean', default: false },
+      silhouette: { type: 'boolean', default: false },
+      threshold: { type: 'string' },
+      invert: { type: 'boolean', default: false },
+      fill: { type: 'string' },
+      layering: { type: 'string' },
+      tracer: { type: 'string' },
+      'pixel-art': { type: 'boolean', default: false },
+      curves: { type: 'boolean', default: false },
+      primitives: { type: 'boolean', default: false },
+      holes: { type: 'string' },
+      'remove-bg': { type: 'boolean', default: false },
+      'bg-mode': { type: 'string' },
+      'bg-detect': { type: 'string' },
+      'bg-model': { type: 'string' },
+      'bg-colors': { type: 'string' },
+      'bg-tolerance': { type: 'string' },
+      feather: { type: 'string' },
+      precision: { type: 'string' },
+      'no-optimize': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return values.help ? 0 : 1;
+  }
+
+  const traceDefaults = values['pixel-art'] ? { ...DEFAULT_TRACE_OPTIONS, ...PIXEL_ART_PRESET.trace } : DEFAULT_TRACE_OPTIONS;
+  const svgDefaults = values['pixel-art'] ? { ...DEFAULT_SVG_OPTIONS, ...PIXEL_ART_PRESET.svg } : DEFAULT_SVG_OPTIONS;
+  const options: ConvertOptions = {
+    trace: {
+      mode: values.silhouette ? 'silhouette' : values.centerline ? 'centerline' : traceDefaults.mode,
+      maxColors: parseNumber(values.colors, 'colors', traceDefaults.maxColors),
+      quantizer: parseChoice(values.quantizer, 'quantizer', QUANTIZERS, traceDefaults.quantizer),
+      tracingTolerance: parseNumber(values.tolerance, 'tolerance', traceDefaults.tracingTolerance),
+      layering: parseChoice(values.layering, 'layering', LAYERING_MODES, traceDefaults.layering),
+      tracer: parseChoice(values.tracer, 'tracer', TRACERS, traceDefaults.tracer),
+      threshold: values.threshold === 'auto' ? 'auto' : values.threshold === undefined
+        ? traceDefaults.threshold
+        : parseNumber(values.threshold, 'threshold', 128),
+      invert: values.invert,
+    },
+    svg: {
+      simplification: parseNumber(values.simplify, 'simplify', svgDefaults.simplification),
+      pathMode: values.curves ? 'curves' : 'polyline',
+      detectPrimitives: values.primitives,
+      holeMode: parseChoice(values.holes, 'holes', HOLE_MODES, svgDefaults.holeMode),
+      crispEdges: svgDefaults.crispEdges,
+      silhouetteColor: parseColor(values.fill, 'fill', svgDefaults.silhouetteColor),
+    },
+    removeBackground: values['remove-bg'],
+    background: {
+      mode: parseChoice(values['bg-mode'], 'bg-mode', BACKGROUND_MODES, DEFAULT_BACKGROUND_OPTIONS.mode),
+      detection: parseChoice(values['bg-detect'], 'bg-detect', BACKGROUND_DETECTIONS, DEFAULT_BACKGROUND_OPTIONS.detection),
+      model: parseChoice(values['bg-model'], 'bg-model', BACKGROUND_MODELS, DEFAULT_BACKGROUND_OPTIONS.model),
+      maxBackgroundColors: parseNumber(values['bg-colors'], 'bg-colors', DEFAULT_BACKGROUND_OPTIONS.maxBackgroundColors),
+      tolerance: parseNumber(values['bg-tolerance'], 'bg-tolerance', DEFAULT_BACKGROUND_OPTIONS.tolerance),
+      feather: parseNumber(values.feather, 'feather', DEFAULT_BACKGROUND_OPTIONS.feather),
+    },
+    optimize: values['no-optimize']
+      ? false
+      : { precision: parseNumber(values.precision, 'precision', DEFAULT_OPTIMIZE_OPTIONS.precision) },
+  };
+
+  const inputs = await collectInputs(positionals);
+  if (inputs.length === 0) {
+    throw new Error('No PNG files matched the given inputs.');
+  }
+
+  const output = values.output;
+  const writesSingleFile = output !== undefined && /\.svg$/i.test(output);
+  if (writesSingleFile && inputs.length > 1) {
+    throw new Error('--output must be a directory when converting more than one file.');
+  }
+
+  let failures = 0;
+  for (const input of inputs) {
+    const target = writesSingleFile
+      ? output
+      : output !== undefined
+        ? path.join(output, input.relativeOutput)
+        : toSvgName(input.file);
+    try {
+      const svg = convertPngToSvg(await fs.readFile(input.file), options);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, svg);
+      console.log(`${input.file} -> ${target}`);
+    } catch (err) {
+      failures++;
+      const message = err instanceof Error ? err.message : String(err);
+      console.error(`${input.file}: ${message}`);
+    }
+  }
+  return failures > 0 ? 1 : 0;
+};
+
+main().then(
+  (code) => { process.exitCode = code; },
+  (err) => {
+    console.error(err instanceof Error ? err.message : err);
+    process.exitCode = 1;
+  },
+);
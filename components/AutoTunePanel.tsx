@@ -0,0 +1,148 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { AutoTuneResult, AutoTuneTarget } from '../services/autoTuneService';
+
+type TargetKind = AutoTuneTarget['kind'];
+
+interface AutoTunePanelProps {
+  onAutoTune: (
+    target: AutoTuneTarget,
+    control: { signal: AbortSignal; onEvaluation: (count: number) => void },
+  ) => Promise<AutoTuneResult>;
+  onApply: (result: AutoTuneResult) => void;
+  // Set while layers or nodes are edited; only Complexity is searched then.
+  isToleranceLocked: boolean;
+}
+
+const isAbortError = (err: unknown): boolean => err instanceof DOMException && err.name === 'AbortError';
+
+export const AutoTunePanel: React.FC<AutoTunePanelProps> = ({ onAutoTune, onApply, isToleranceLocked }) => {
+  const [kind, setKind] = useState<TargetKind>('size');
+  const [maxKilobytes, setMaxKilobytes] = useState(10);
+  const [minScore, setMinScore] = useState(95);
+  const [evaluations, setEvaluations] = useState<number | null>(null);
+  const [result, setResult] = useState<AutoTuneResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop a running search when the panel goes away.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setResult(null);
+    setError(null);
+    setEvaluations(0);
+    const target: AutoTuneTarget = kind === 'size'
+      ? { kind, maxBytes: maxKilobytes * 1024 }
+      : { kind, minScore };
+    try {
+      setResult(await onAutoTune(target, { signal: controller.signal, onEvaluation: setEvaluations }));
+    } catch (err) {
+      if (!isAbortError(err)) {
+        setError(err instanceof Error ? err.message : 'Auto-tune failed.');
+      }
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setEvaluations(null);
+      }
+    }
+  };
+
+  const isRunning = evaluations !== null;
+
+  return (
+    <div className="w-full flex flex-col bg-gray-900 rounded-lg border border-gray-700 p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-300">Auto-Tune</h3>
+        <span className="text-xs text-gray-500">
+          {isToleranceLocked ? 'Finds a Complexity setting for a target.' : 'Finds Complexity and Tolerance settings for a target.'}
+        </span>
+      </div>
+      <p className="text-xs text-gray-500">
+        {isToleranceLocked
+          ? 'Tolerance stays as it is while layers or nodes are edited, since tracing again would discard those edits.'
+          : 'Other tolerances are tried in whole steps from the current one, as each needs a new trace.'}
+      </p>
+      <div className="flex items-center space-x-2 text-sm">
+        <select
+          value={kind}
+          onChange={(e) => setKind(e.target.value as TargetKind)}
+          disabled={isRunning}
+          className="bg-gray-800 border border-gray-600 rounded-md text-gray-300 px-2 py-1"
+          aria-label="Auto-tune target"
+        >
+          <option value="size">Max file size</option>
+          <option value="fidelity">Min fidelity</option>
+        </select>
+        {kind === 'size' ? (
+          <label className="flex items-center space-x-1 text-gray-400">
+            <input
+              type="number"
+              min="0.1"
+              step="0.5"
+              value={maxKilobytes}
+              onChange={(e) => setMaxKilobytes(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+              disabled={isRunning}
+              className="w-20 bg-gray-800 border border-gray-600 rounded-md text-gray-300 px-2 py-1"
+            />
+            <span>KB</span>
+          </label>
+        ) : (
+          <label className="flex items-center space-x-1 text-gray-400">
+            <input
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={minScore}
+              onChange={(e) => setMinScore(Math.min(100, Math.max(0, parseFloat(e.target.value) || 0)))}
+              disabled={isRunning}
+              className="w-20 bg-gray-800 border border-gray-600 rounded-md text-gray-300 px-2 py-1"
+            />
+            <span>%</span>
+          </label>
+        )}
+        <div className="flex-grow" />
+        {isRunning ? (
+          <button
+            onClick={() => abortRef.current?.abort()}
+            className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors"
+          >
+            Cancel
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            className="px-3 py-1 rounded-md bg-brand-blue hover:bg-blue-600 text-white transition-colors"
+          >
+            Auto-Tune
+          </button>
+        )}
+      </div>
+      {isRunning && <p className="text-xs text-gray-400">Searching... ({evaluations} settings tried)</p>}
+      {error && <p className="text-xs text-red-400">{error}</p>}
+      {result && (
+        <div className="flex items-center justify-between text-sm bg-gray-800 rounded-md px-3 py-2">
+          <div>
+            <p className={result.met ? 'text-gray-200' : 'text-yellow-400'}>
+              {result.met ? 'Target met' : 'Target not reachable; closest result'}
+            </p>
+            <p className="text-xs text-gray-400 font-mono">
+              Complexity {result.simplification.toFixed(1)} · Tolerance {result.tracingTolerance.toFixed(1)} · {(result.bytes / 1024).toFixed(1)} KB
+              {result.score !== null && ` · ${result.score.toFixed(1)}%`}
+            </p>
+          </div>
+          <button
+            onClick={() => onApply(result)}
+            className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors"
+          >
+            Apply
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,216 @@
+import React, { useState } from 'react';
+import type { BatchItem, SettingsOverrides } from '../services/batchService';
+import { applyOverrides, isBatchItemPending } from '../services/batchService';
+import type { ConversionSettings } from '../services/settingsService';
+import type { BackgroundRemovalMode } from '../services/backgroundRemoverService';
+import { DownloadIcon, ResetIcon } from './icons';
+
+interface BatchQueueProps {
+  items: BatchItem[];
+  onItemsChange: (items: BatchItem[]) => void;
+  // The shared settings profile every item starts from.
+  settings: ConversionSettings;
+  selectedId: number | null;
+  onSelect: (id: number) => void;
+  isConverting: boolean;
+  onConvert: () => void;
+  onCancel: () => void;
+  onDownloadZip: () => void;
+}
+
+const BACKGROUND_MODE_LABELS: Record<BackgroundRemovalMode, string> = {
+  none: 'Keep',
+  global: 'Color Match',
+  flood: 'Flood Fill',
+};
+
+// Number inputs that fall back to the shared value when cleared.
+const OverrideNumber: React.FC<{
+  label: string;
+  value: number | undefined;
+  shared: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number | undefined) => void;
+}> = ({ label, value, shared, min, max, step, onChange }) => (
+  <label className="flex items-center justify-between space-x-2">
+    <span className="text-gray-400">{label}</span>
+    <input
+      type="number"
+      min={min}
+      max={max}
+      step={step}
+      value={value ?? ''}
+      placeholder={String(shared)}
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Math.min(max, Math.max(min, parseFloat(e.target.value) || min)))}
+      className="w-20 bg-gray-900 border border-gray-600 rounded-md text-gray-300 px-2 py-0.5"
+    />
+  </label>
+);
+
+export const BatchQueue: React.FC<BatchQueueProps> = ({
+  items,
+  onItemsChange,
+  settings,
+  selectedId,
+  onSelect,
+  isConverting,
+  onConvert,
+  onCancel,
+  onDownloadZip,
+}) => {
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const updateOverrides = (id: number, overrides: SettingsOverrides) =>
+    onItemsChange(items.map(item => item.id === id ? { ...item, overrides } : item));
+
+  // Sets or clears one override, dropping groups that end up empty.
+  const setOverride = <G extends keyof ConversionSettings, K extends keyof ConversionSettings[G]>(
+    item: BatchItem,
+    group: G,
+    key: K,
+    value: ConversionSettings[G][K] | undefined,
+  ) => {
+    const groupOverrides: Partial<ConversionSettings[G]> = { ...item.overrides[group] };
+    if (value === undefined) delete groupOverrides[key];
+    else groupOverrides[key] = value;
+    const overrides: SettingsOverrides = { ...item.overrides, [group]: groupOverrides };
+    if (Object.keys(groupOverrides).length === 0) delete overrides[group];
+    updateOverrides(item.id, overrides);
+  };
+
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const pendingCount = items.filter(item => isBatchItemPending(item, settings)).length;
+
+  return (
+    <div className="w-full flex flex-col bg-gray-900 rounded-lg border border-gray-700 min-h-0 h-full">
+      <div className="flex justify-between items-center p-2 border-b border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-300 pl-2">Batch ({doneCount}/{items.length} done)</h3>
+        <div className="flex items-center space-x-2 text-sm">
+          {isConverting ? (
+            <button onClick={onCancel} className="px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 transition-colors">
+              Cancel
+            </button>
+          ) : (
+            <button
+              onClick={onConvert}
+              disabled={pendingCount === 0}
+              className="px-3 py-1 rounded-md bg-brand-blue hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Convert {pendingCount > 0 ? pendingCount : ''}
+            </button>
+          )}
+          <button
+            onClick={onDownloadZip}
+            disabled={doneCount === 0 || isConverting}
+            className="flex items-center px-3 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            title="Download every finished SVG as one ZIP"
+          >
+            <DownloadIcon className="w-4 h-4 mr-1" />
+            ZIP
+          </button>
+        </div>
+      </div>
+      <p className="text-xs text-gray-500 px-4 pt-2">
+        Every image uses the settings on the right. Open an item's overrides to change them for that image only.
+      </p>
+      <ul className="flex-grow overflow-auto p-2 space-y-1 min-h-0">
+        {items.map(item => {
+          const outdated = item.status === 'done' && isBatchItemPending(item, settings);
+          const effective = applyOverrides(settings, item.overrides);
+          const overrideCount = Object.values(item.overrides).reduce<number>((sum, group) => sum + Object.keys(group ?? {}).length, 0);
+          return (
+            <li key={item.id} className={`rounded-md text-sm ${item.id === selectedId ? 'bg-brand-blue/30' : 'bg-gray-800'}`}>
+              <div className="flex items-center space-x-2 px-2 py-1">
+                <button
+                  onClick={() => onSelect(item.id)}
+                  className="flex items-center space-x-2 flex-grow text-left min-w-0"
+                  title="Show this result"
+                >
+                  <img src={item.image?.dataUrl ?? item.url} alt="" className="w-10 h-10 object-contain bg-white/10 rounded" />
+                  <span className="flex-grow min-w-0">
+                    <span className="block truncate text-gray-300">{item.name}</span>
+                    {item.status === 'error' ? (
+                      <span className="block truncate text-xs text-red-400" title={item.error}>{item.error}</span>
+                    ) : (
+                      <span className={`block text-xs ${outdated ? 'text-yellow-400' : 'text-gray-500'}`}>
+                        {item.status === 'queued' && 'Queued'}
+                        {item.status === 'converting' && 'Converting...'}
+                        {item.status === 'done' && (outdated
+                          ? 'Settings changed; convert again'
+                          : `Done · ${(new Blob([item.svgCode ?? '']).size / 1024).toFixed(1)} KB`)}
+                      </span>
+                    )}
+                  </span>
+                </button>
+                <button
+                  onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+                  className={`px-2 py-0.5 rounded text-xs ${overrideCount > 0 ? 'text-brand-blue' : 'text-gray-400'} hover:text-white`}
+                  aria-expanded={expandedId === item.id}
+                >
+                  Overrides{overrideCount > 0 ? ` (${overrideCount})` : ''}
+                </button>
+                <button
+                  onClick={() => onItemsChange(items.filter(other => other.id !== item.id))}
+                  disabled={item.status === 'converting'}
+                  className="p-1 text-gray-400 hover:text-red-400 disabled:opacity-30"
+                  title="Remove from batch"
+                >
+                  <ResetIcon className="w-4 h-4" />
+                </button>
+              </div>
+              {expandedId === item.id && (
+                <div className="grid grid-cols-2 gap-x-4 gap-y-1 px-3 pb-2 text-xs">
+                  <OverrideNumber
+                    label="Max colors"
+                    value={item.overrides.trace?.maxColors}
+                    shared={settings.trace.maxColors}
+                    min={2}
+                    max={64}
+                    step={1}
+                    onChange={(value) => setOverride(item, 'trace', 'maxColors', value)}
+                  />
+                  <OverrideNumber
+                    label="Tolerance"
+                    value={item.overrides.trace?.tracingTolerance}
+                    shared={settings.trace.tracingTolerance}
+                    min={0}
+                    max={5}
+                    step={0.2}
+                    onChange={(value) => setOverride(item, 'trace', 'tracingTolerance', value)}
+                  />
+                  <OverrideNumber
+                    label="Complexity"
+                    value={item.overrides.svg?.simplification}
+                    shared={settings.svg.simplification}
+                    min={0.1}
+                    max={10}
+                    step={0.1}
+                    onChange={(value) => setOverride(item, 'svg', 'simplification', value)}
+                  />
+                  <label className="flex items-center justify-between space-x-2">
+                    <span className="text-gray-400">Background</span>
+                    <select
+                      value={item.overrides.background?.mode ?? ''}
+                      onChange={(e) => setOverride(item, 'background', 'mode', (e.target.value || undefined) as BackgroundRemovalMode | undefined)}
+                      className="bg-gray-900 border border-gray-600 rounded-md text-gray-300 px-1 py-0.5"
+                    >
+                      <option value="">Shared ({BACKGROUND_MODE_LABELS[settings.background.mode]})</option>
+                      {(Object.keys(BACKGROUND_MODE_LABELS) as BackgroundRemovalMode[]).map(mode => (
+                        <option key={mode} value={mode}>{BACKGROUND_MODE_LABELS[mode]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <p className="col-span-2 text-gray-500">
+                    Effective: {effective.trace.maxColors} colors, tolerance {effective.trace.tracingTolerance.toFixed(1)}, complexity {effective.svg.simplification.toFixed(1)}
+                  </p>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
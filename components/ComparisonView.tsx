@@ -0,0 +1,139 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { UploadedImage } from '../types';
+import type { Color } from '../services/vectorizerCore';
+import { loadImagePixels, pixelsToDataUrl } from '../services/backgroundRemoverService';
+import { compareRasters, rasterizeSvg } from '../services/fidelityService';
+import type { FidelityReport } from '../services/fidelityService';
+
+type CompareMode = 'overlay' | 'swipe' | 'heatmap';
+
+interface ComparisonViewProps {
+  sourceImage: UploadedImage;
+  svgCode: string;
+  // Colors of the visible layers, reported individually.
+  layerColors: Color[];
+}
+
+const toHex = (c: number) => c.toString(16).padStart(2, '0');
+
+const colorToHex = (color: Color) => `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+
+export const ComparisonView: React.FC<ComparisonViewProps> = ({ sourceImage, svgCode, layerColors }) => {
+  const [mode, setMode] = useState<CompareMode>('overlay');
+  // SVG opacity in overlay mode, divider position in swipe mode (both 0-100).
+  const [opacity, setOpacity] = useState(50);
+  const [swipe, setSwipe] = useState(50);
+  const [report, setReport] = useState<FidelityReport | null>(null);
+  const [heatmapUrl, setHeatmapUrl] = useState<string | null>(null);
+  const [isMeasuring, setIsMeasuring] = useState(false);
+  const [measureError, setMeasureError] = useState<string | null>(null);
+
+  const svgUrl = useMemo(() => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svgCode)}`, [svgCode]);
+
+  // Rasterizing and diffing takes a moment on large images, so wait for slider changes to settle.
+  useEffect(() => {
+    let cancelled = false;
+    setIsMeasuring(true);
+    const handler = setTimeout(async () => {
+      try {
+        const source = await loadImagePixels(sourceImage);
+        const rendered = await rasterizeSvg(svgCode, source.width, source.height);
+        if (cancelled) return;
+        const result = compareRasters(source, rendered, layerColors);
+        setReport(result);
+        setHeatmapUrl(pixelsToDataUrl(new ImageData(result.heatmap.data, result.heatmap.width, result.heatmap.height)));
+        setMeasureError(null);
+      } catch (err) {
+        if (cancelled) return;
+        setMeasureError(err instanceof Error ? err.message : 'Comparison failed.');
+      } finally {
+        if (!cancelled) setIsMeasuring(false);
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(handler);
+    };
+  }, [sourceImage, svgCode, layerColors]);
+
+  const modes: { value: CompareMode; label: string }[] = [
+    { value: 'overlay', label: 'Overlay' },
+    { value: 'swipe', label: 'Swipe' },
+    { value: 'heatmap', label: 'Difference' },
+  ];
+
+  return (
+    <div className="w-full h-full flex flex-col space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <div className="flex items-center bg-gray-800 p-1 rounded-lg text-sm">
+          {modes.map(({ value, label }) => (
+            <button
+              key={value}
+              onClick={() => setMode(value)}
+              className={`px-3 py-1 rounded-md transition-colors ${mode === value ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+              aria-pressed={mode === value}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+        {mode !== 'heatmap' && (
+          <input
+            type="range"
+            min="0"
+            max="100"
+            step="1"
+            value={mode === 'overlay' ? opacity : swipe}
+            onChange={(e) => (mode === 'overlay' ? setOpacity : setSwipe)(parseInt(e.target.value, 10))}
+            className="flex-grow h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue"
+            aria-label={mode === 'overlay' ? 'SVG Opacity Slider' : 'Swipe Position Slider'}
+          />
+        )}
+      </div>
+
+      <div className="relative flex-grow min-h-[12rem]">
+        <img
+          src={sourceImage.dataUrl}
+          alt="Source"
+          className={`absolute inset-0 w-full h-full object-contain ${mode === 'heatmap' ? 'opacity-30' : ''}`}
+        />
+        {mode === 'heatmap' ? (
+          heatmapUrl && <img src={heatmapUrl} alt="Difference heatmap" className="absolute inset-0 w-full h-full object-contain" />
+        ) : (
+          <img
+            src={svgUrl}
+            alt="Generated SVG"
+            className="absolute inset-0 w-full h-full object-contain"
+            style={mode === 'overlay' ? { opacity: opacity / 100 } : { clipPath: `inset(0 0 0 ${swipe}%)` }}
+          />
+        )}
+        {mode === 'swipe' && (
+          <div className="absolute top-0 bottom-0 w-0.5 bg-brand-blue pointer-events-none" style={{ left: `${swipe}%` }} />
+        )}
+      </div>
+
+      <div className="text-sm text-gray-300">
+        {measureError ? (
+          <p className="text-red-400">{measureError}</p>
+        ) : report ? (
+          <>
+            <p className={isMeasuring ? 'opacity-50' : ''}>
+              Fidelity <span className="font-mono text-white">{report.score.toFixed(1)}%</span>
+              <span className="text-gray-500"> · mean color error {(report.meanError * 100).toFixed(2)}%</span>
+            </p>
+            <div className="flex flex-wrap gap-2 mt-1">
+              {report.layers.map((layer, index) => (
+                <span key={index} className="flex items-center space-x-1 bg-gray-800 rounded px-2 py-0.5 text-xs font-mono" title="Intersection over union with the source">
+                  <span className="w-3 h-3 rounded-sm border border-gray-600" style={{ backgroundColor: colorToHex(layer.color) }} />
+                  <span>{(layer.iou * 100).toFixed(1)}%</span>
+                </span>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-gray-500">Measuring...</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,13 @@
 import React, { useState, useRef, useCallback, MouseEvent, useEffect } from 'react';
 import type { UploadedImage } from '../types';
+import type { Point } from '../services/vectorizerCore';
+import { loadImagePixels, pixelsToDataUrl, removeBackgroundPixels } from '../services/backgroundRemoverService';
+import type {
+  BackgroundRemovalMode,
+  BackgroundDetectionSetting,
+  BackgroundRemovalOptions,
+  PickedBackgroundColor,
+} from '../services/backgroundRemoverService';
 import { ResetIcon } from './icons';
 
 export interface CropData {
@@ -14,27 +22,136 @@ interface ImageCropperProps {
   onCrop: (crop: CropData) => void;
   onConvertFull: () => void;
   onReset: () => void;
-  shouldRemoveBackground: boolean;
-  onShouldRemoveBackgroundChange: (checked: boolean) => void;
+  backgroundMode: BackgroundRemovalMode;
+  onBackgroundModeChange: (mode: BackgroundRemovalMode) => void;
+  backgroundSeeds: Point[];
+  onBackgroundSeedsChange: (seeds: Point[]) => void;
+  backgroundFeather: number;
+  onBackgroundFeatherChange: (feather: number) => void;
+  backgroundDetection: BackgroundDetectionSetting;
+  onBackgroundDetectionChange: (detection: BackgroundDetectionSetting) => void;
+  backgroundTolerance: number;
+  onBackgroundToleranceChange: (tolerance: number) => void;
+  pickedColors: PickedBackgroundColor[];
+  onPickedColorsChange: (pickedColors: PickedBackgroundColor[]) => void;
+  // The full set of removal options, used to render the live preview.
+  backgroundOptions: BackgroundRemovalOptions;
 }
 
+const BACKGROUND_MODE_LABELS: Record<BackgroundRemovalMode, string> = {
+  none: 'Keep',
+  global: 'Color Match',
+  flood: 'Flood Fill',
+};
+
+const BACKGROUND_DETECTION_LABELS: Record<BackgroundDetectionSetting, string> = {
+  auto: 'Border (auto)',
+  solid: 'Border colors',
+  linear: 'Linear gradient',
+  radial: 'Radial gradient',
+  corner: 'Top-left pixel',
+};
+
 type DragHandle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se' | 'move';
 
+// What a click on the image does: start a crop selection, add a flood seed, or pick a background color.
+type CropperTool = 'crop' | 'seed' | 'eyedropper';
+
+// 'color' removes the picked color everywhere; 'region' only removes the area connected to the click.
+type PickTarget = 'color' | 'region';
+
+// The live preview is rendered from a downscaled copy so it stays responsive on large images.
+const PREVIEW_MAX_DIMENSION = 512;
+
+const TOOL_HINTS: Record<CropperTool, string> = {
+  crop: 'Click and drag on the image to select a region to convert.',
+  seed: 'Click on the background to add flood-fill seed points.',
+  eyedropper: 'Click on a color to add it to the removal list.',
+};
+
+const CHECKERBOARD_STYLE: React.CSSProperties = {
+  backgroundImage: 'repeating-conic-gradient(#4b5563 0% 25%, #374151 0% 50%)',
+  backgroundSize: '16px 16px',
+};
+
 export const ImageCropper: React.FC<ImageCropperProps> = ({ 
   image, 
   onCrop, 
   onConvertFull, 
   onReset,
-  shouldRemoveBackground,
-  onShouldRemoveBackgroundChange
+  backgroundMode,
+  onBackgroundModeChange,
+  backgroundSeeds,
+  onBackgroundSeedsChange,
+  backgroundFeather,
+  onBackgroundFeatherChange,
+  backgroundDetection,
+  onBackgroundDetectionChange,
+  backgroundTolerance,
+  onBackgroundToleranceChange,
+  pickedColors,
+  onPickedColorsChange,
+  backgroundOptions
 }) => {
   const [crop, setCrop] = useState<CropData | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState<{ x: number, y: number } | null>(null);
   const [activeHandle, setActiveHandle] = useState<DragHandle | null>(null);
+  const [tool, setTool] = useState<CropperTool>('crop');
+  const [pickTarget, setPickTarget] = useState<PickTarget>('color');
+  const [pixels, setPixels] = useState<ImageData | null>(null);
+  const [previewPixels, setPreviewPixels] = useState<ImageData | null>(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const imageRef = useRef<HTMLImageElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  useEffect(() => {
+    let active = true;
+    setPixels(null);
+    setPreviewPixels(null);
+    Promise.all([loadImagePixels(image), loadImagePixels(image, PREVIEW_MAX_DIMENSION)])
+      .then(([full, preview]) => {
+        if (!active) return;
+        setPixels(full);
+        setPreviewPixels(preview);
+      })
+      .catch(err => console.error('Failed to decode image for background picking:', err));
+    return () => { active = false; };
+  }, [image]);
+
+  // Re-runs background removal on the downscaled copy whenever the settings change.
+  useEffect(() => {
+    if (!showPreview || !pixels || !previewPixels) {
+      setPreviewUrl(null);
+      return;
+    }
+    const handler = setTimeout(() => {
+      const scale = previewPixels.width / pixels.width;
+      const scalePoint = (point: Point): Point => ({
+        x: Math.min(previewPixels.width - 1, Math.floor(point.x * scale)),
+        y: Math.min(previewPixels.height - 1, Math.floor(point.y * scale)),
+      });
+      const preview = new ImageData(new Uint8ClampedArray(previewPixels.data), previewPixels.width, previewPixels.height);
+      removeBackgroundPixels(preview, {
+        ...backgroundOptions,
+        seeds: backgroundOptions.seeds?.map(scalePoint),
+        pickedColors: backgroundOptions.pickedColors?.map(pick => pick.point ? { ...pick, point: scalePoint(pick.point) } : pick),
+        feather: Math.round((backgroundOptions.feather ?? 0) * scale),
+      });
+      setPreviewUrl(pixelsToDataUrl(preview));
+    }, 150);
+    return () => clearTimeout(handler);
+  }, [showPreview, pixels, previewPixels, backgroundOptions]);
+
+  // The displayed image may be the downscaled preview, so coordinates are always mapped
+  // against the size of the original image.
+  const getNaturalSize = () => {
+    if (pixels) return { width: pixels.width, height: pixels.height };
+    const img = imageRef.current;
+    return { width: img?.naturalWidth ?? 0, height: img?.naturalHeight ?? 0 };
+  };
+
   const getRelativeCoords = (e: MouseEvent) => {
     if (!containerRef.current) return { x: 0, y: 0 };
     const rect = containerRef.current.getBoundingClientRect();
@@ -44,8 +161,50 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({
     };
   };
 
+  // Maps a mouse position to natural image pixel coordinates, or null if it is outside the image.
+  const getImageCoords = (e: MouseEvent): Point | null => {
+    const img = imageRef.current;
+    if (!img) return null;
+    const { width, height } = getNaturalSize();
+    const rect = img.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * width;
+    const y = ((e.clientY - rect.top) / rect.height) * height;
+    if (x < 0 || y < 0 || x >= width || y >= height) return null;
+    return { x: Math.floor(x), y: Math.floor(y) };
+  };
+
+  // Maps a natural image pixel coordinate back to a position inside the container.
+  const toContainerCoords = (point: Point): { x: number, y: number } | null => {
+    const img = imageRef.current;
+    const container = containerRef.current;
+    const { width, height } = getNaturalSize();
+    if (!img || !container || !width) return null;
+    const imgRect = img.getBoundingClientRect();
+    const containerRect = container.getBoundingClientRect();
+    return {
+      x: imgRect.left - containerRect.left + ((point.x + 0.5) / width) * imgRect.width,
+      y: imgRect.top - containerRect.top + ((point.y + 0.5) / height) * imgRect.height,
+    };
+  };
+
   const handleMouseDown = (e: MouseEvent<HTMLDivElement>) => {
     e.preventDefault();
+    if (tool === 'seed') {
+      const point = getImageCoords(e);
+      if (point) onBackgroundSeedsChange([...backgroundSeeds, point]);
+      return;
+    }
+    if (tool === 'eyedropper') {
+      const point = getImageCoords(e);
+      if (!point || !pixels) return;
+      const offset = (point.y * pixels.width + point.x) * 4;
+      const color = { r: pixels.data[offset], g: pixels.data[offset + 1], b: pixels.data[offset + 2], a: 255 };
+      onPickedColorsChange([
+        ...pickedColors,
+        { color, tolerance: backgroundTolerance, point: pickTarget === 'region' ? point : undefined },
+      ]);
+      return;
+    }
     const coords = getRelativeCoords(e);
     
     // Check if a resize handle was clicked
@@ -146,8 +305,7 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({
   const handleConvertCrop = () => {
     if (!crop || !imageRef.current || !containerRef.current) return;
 
-    const img = imageRef.current;
-    const { naturalWidth, naturalHeight } = img;
+    const { width: naturalWidth, height: naturalHeight } = getNaturalSize();
     const { width: displayWidth, height: displayHeight } = containerRef.current.getBoundingClientRect();
     
     const scaleX = naturalWidth / displayWidth;
@@ -166,17 +324,20 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({
 
   return (
     <div className="flex flex-col h-full space-y-4">
-      <p className="text-sm text-gray-400 text-center">Click and drag on the image to select a region to convert.</p>
+      <p className="text-sm text-gray-400 text-center">
+        {TOOL_HINTS[tool]}
+      </p>
       <div 
         ref={containerRef}
-        className="relative flex-grow flex items-center justify-center select-none overflow-hidden cursor-crosshair"
+        className={`relative flex-grow flex items-center justify-center select-none overflow-hidden ${tool === 'crop' ? 'cursor-crosshair' : 'cursor-cell'}`}
         onMouseDown={handleMouseDown}
       >
         <img
           ref={imageRef}
-          src={image.dataUrl}
+          src={previewUrl ?? image.dataUrl}
           alt="Selection preview"
           className="max-w-full max-h-full object-contain pointer-events-none"
+          style={previewUrl ? CHECKERBOARD_STYLE : undefined}
         />
         {crop && (
             <div
@@ -203,18 +364,184 @@ export const ImageCropper: React.FC<ImageCropperProps> = ({
               ))}
             </div>
         )}
+        {backgroundMode === 'flood' && backgroundSeeds.map((seed, index) => {
+          const position = toContainerCoords(seed);
+          if (!position) return null;
+          return (
+            <div
+              key={index}
+              className="absolute w-2.5 h-2.5 -ml-[5px] -mt-[5px] rounded-full bg-yellow-400 border border-gray-900 pointer-events-none"
+              style={{ left: position.x, top: position.y }}
+            />
+          );
+        })}
+        {pickedColors.map((pick, index) => {
+          const position = pick.point && toContainerCoords(pick.point);
+          if (!position) return null;
+          return (
+            <div
+              key={index}
+              className="absolute w-3 h-3 -ml-1.5 -mt-1.5 rounded-sm border-2 border-white pointer-events-none"
+              style={{ left: position.x, top: position.y, backgroundColor: `rgb(${pick.color.r}, ${pick.color.g}, ${pick.color.b})` }}
+            />
+          );
+        })}
       </div>
-      <div className="flex items-center justify-center">
-          <input
-              type="checkbox"
-              id="remove-bg-checkbox"
-              checked={shouldRemoveBackground}
-              onChange={(e) => onShouldRemoveBackgroundChange(e.target.checked)}
-              className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
-          />
-          <label htmlFor="remove-bg-checkbox" className="ml-3 text-sm font-medium text-gray-300">
-              Remove Background
-          </label>
+      <div className="flex flex-col items-center space-y-2">
+          <div className="flex items-center space-x-3">
+              <span className="text-sm font-medium text-gray-300">Background</span>
+              <div className="flex items-center bg-gray-800 p-1 rounded-lg text-sm" role="group" aria-label="Background removal mode">
+                  {(Object.keys(BACKGROUND_MODE_LABELS) as BackgroundRemovalMode[]).map(mode => (
+                      <button
+                          key={mode}
+                          onClick={() => {
+                              onBackgroundModeChange(mode);
+                              if (mode !== 'flood' && tool === 'seed') setTool('crop');
+                          }}
+                          className={`px-3 py-1 rounded-md transition-colors ${backgroundMode === mode ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                          aria-pressed={backgroundMode === mode}
+                      >
+                          {BACKGROUND_MODE_LABELS[mode]}
+                      </button>
+                  ))}
+              </div>
+          </div>
+          {backgroundMode === 'flood' && (
+              <div className="flex items-center space-x-3 text-sm">
+                  <span className="text-gray-400">
+                      Seeds: {backgroundSeeds.length > 0 ? `${backgroundSeeds.length} point${backgroundSeeds.length === 1 ? '' : 's'}` : 'image corners'}
+                  </span>
+                  <button
+                      onClick={() => setTool(current => current === 'seed' ? 'crop' : 'seed')}
+                      className={`px-2 py-1 rounded-md transition-colors ${tool === 'seed' ? 'bg-brand-blue text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                      aria-pressed={tool === 'seed'}
+                  >
+                      {tool === 'seed' ? 'Done Picking' : 'Pick Seeds'}
+                  </button>
+                  {backgroundSeeds.length > 0 && (
+                      <button
+                          onClick={() => onBackgroundSeedsChange([])}
+                          className="px-2 py-1 rounded-md bg-gray-700 text-gray-300 hover:bg-gray-600 transition-colors"
+                      >
+                          Clear
+                      </button>
+                  )}
+              </div>
+          )}
+          {backgroundMode !== 'none' && (
+              <div className="flex items-center space-x-2 text-sm">
+                  <label htmlFor="bg-detection-select" className="text-gray-400">Detect from</label>
+                  <select
+                      id="bg-detection-select"
+                      value={backgroundDetection}
+                      onChange={(e) => onBackgroundDetectionChange(e.target.value as BackgroundDetectionSetting)}
+                      className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1"
+                  >
+                      {(Object.keys(BACKGROUND_DETECTION_LABELS) as BackgroundDetectionSetting[]).map(setting => (
+                          <option key={setting} value={setting}>{BACKGROUND_DETECTION_LABELS[setting]}</option>
+                      ))}
+                  </select>
+              </div>
+          )}
+          {backgroundMode !== 'none' && (
+              <div className="flex items-center space-x-2 w-full max-w-xs">
+                  <label htmlFor="bg-tolerance-slider" className="text-sm text-gray-400 whitespace-nowrap">Tolerance</label>
+                  <input
+                      id="bg-tolerance-slider"
+                      type="range"
+                      min="0"
+                      max="100"
+                      step="1"
+                      value={backgroundTolerance}
+                      onChange={(e) => onBackgroundToleranceChange(parseInt(e.target.value, 10))}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue"
+                      aria-label="Background Tolerance Slider"
+                  />
+                  <span className="text-sm text-gray-400 font-mono w-10 text-right">{backgroundTolerance}</span>
+              </div>
+          )}
+          <div className="flex items-center space-x-3 text-sm">
+              <button
+                  onClick={() => setTool(current => current === 'eyedropper' ? 'crop' : 'eyedropper')}
+                  disabled={!pixels}
+                  className={`px-2 py-1 rounded-md transition-colors disabled:opacity-50 ${tool === 'eyedropper' ? 'bg-brand-blue text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                  aria-pressed={tool === 'eyedropper'}
+              >
+                  {tool === 'eyedropper' ? 'Done Picking' : 'Eyedropper'}
+              </button>
+              <div className="flex items-center bg-gray-800 p-1 rounded-lg" role="group" aria-label="Eyedropper target">
+                  {(['color', 'region'] as PickTarget[]).map(target => (
+                      <button
+                          key={target}
+                          onClick={() => setPickTarget(target)}
+                          className={`px-2 py-0.5 rounded-md transition-colors ${pickTarget === target ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                          aria-pressed={pickTarget === target}
+                      >
+                          {target === 'color' ? 'Color' : 'Region'}
+                      </button>
+                  ))}
+              </div>
+              <label className="flex items-center space-x-1 text-gray-400 cursor-pointer">
+                  <input
+                      type="checkbox"
+                      checked={showPreview}
+                      onChange={(e) => setShowPreview(e.target.checked)}
+                      className="accent-brand-blue"
+                  />
+                  <span>Preview</span>
+              </label>
+          </div>
+          {pickedColors.length > 0 && (
+              <ul className="w-full max-w-sm space-y-1">
+                  {pickedColors.map((pick, index) => (
+                      <li key={index} className="flex items-center space-x-2 text-sm">
+                          <span
+                              className="w-4 h-4 rounded border border-gray-500 flex-shrink-0"
+                              style={{ backgroundColor: `rgb(${pick.color.r}, ${pick.color.g}, ${pick.color.b})` }}
+                          />
+                          <span className="text-gray-400 w-14">{pick.point ? 'Region' : 'Color'}</span>
+                          <input
+                              type="range"
+                              min="0"
+                              max="100"
+                              step="1"
+                              value={pick.tolerance}
+                              onChange={(e) => {
+                                  const tolerance = parseInt(e.target.value, 10);
+                                  onPickedColorsChange(pickedColors.map((other, i) => i === index ? { ...other, tolerance } : other));
+                              }}
+                              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue"
+                              aria-label={`Picked Color ${index + 1} Tolerance`}
+                          />
+                          <span className="text-gray-400 font-mono w-8 text-right">{pick.tolerance}</span>
+                          <button
+                              onClick={() => onPickedColorsChange(pickedColors.filter((_, i) => i !== index))}
+                              className="px-1.5 text-gray-400 hover:text-white"
+                              aria-label={`Remove picked color ${index + 1}`}
+                          >
+                              &times;
+                          </button>
+                      </li>
+                  ))}
+              </ul>
+          )}
+          {backgroundMode !== 'none' && (
+              <div className="flex items-center space-x-2 w-full max-w-xs">
+                  <label htmlFor="feather-slider" className="text-sm text-gray-400 whitespace-nowrap">Feather</label>
+                  <input
+                      id="feather-slider"
+                      type="range"
+                      min="0"
+                      max="5"
+                      step="1"
+                      value={backgroundFeather}
+                      onChange={(e) => onBackgroundFeatherChange(parseInt(e.target.value, 10))}
+                      className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue"
+                      aria-label="Background Feather Slider"
+                  />
+                  <span className="text-sm text-gray-400 font-mono w-10 text-right">{backgroundFeather}px</span>
+              </div>
+          )}
       </div>
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
         <button
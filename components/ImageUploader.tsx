@@ -6,42 +6,62 @@ import type { UploadedImage } from '../types';
 
 interface ImageUploaderProps {
   onImageUpload: (image: UploadedImage) => void;
+  // Called instead of onImageUpload when several images are dropped or selected at once.
+  onImagesUpload: (images: UploadedImage[]) => void;
   disabled: boolean;
 }
 
-export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, disabled }) => {
+const readImageFile = (file: File): Promise<UploadedImage> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (e) => {
+    const dataUrl = e.target?.result as string;
+    if (dataUrl) {
+      resolve({ dataUrl, mimeType: file.type, name: file.name });
+    } else {
+      reject(new Error(`Could not read ${file.name}.`));
+    }
+  };
+  reader.onerror = () => reject(new Error(`Could not read ${file.name}.`));
+  reader.readAsDataURL(file);
+});
+
+export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, onImagesUpload, disabled }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const processFile = (file: File) => {
     if (file && file.type.startsWith('image/')) {
-      const reader = new FileReader();
-      reader.onload = (e) => {
-        const dataUrl = e.target?.result as string;
-        if (dataUrl) {
-          onImageUpload({ dataUrl, mimeType: file.type });
-        }
-      };
-      reader.readAsDataURL(file);
+      readImageFile(file).then(onImageUpload, (err: Error) => alert(err.message));
     } else {
       alert('Please select a valid image file.');
     }
   };
 
-  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      processFile(file);
+  // Several files go to the batch queue; non-image files among them are skipped.
+  const processFiles = (fileList: FileList | null) => {
+    const files = Array.from(fileList ?? []);
+    if (files.length <= 1) {
+      if (files[0]) processFile(files[0]);
+      return;
     }
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0) {
+      alert('Please select valid image files.');
+      return;
+    }
+    Promise.all(images.map(readImageFile)).then(onImagesUpload, (err: Error) => alert(err.message));
+  };
+
+  const handleFileChange = (event: ChangeEvent<HTMLInputElement>) => {
+    processFiles(event.target.files);
+    // Allow selecting the same files again.
+    event.target.value = '';
   };
 
   const handleDrop = (event: DragEvent<HTMLDivElement>) => {
     event.preventDefault();
     event.stopPropagation();
     if (disabled) return;
-    const file = event.dataTransfer.files?.[0];
-    if (file) {
-      processFile(file);
-    }
+    processFiles(event.dataTransfer.files);
   };
 
   const handlePaste = useCallback((event: ClipboardEvent<HTMLDivElement>) => {
@@ -86,6 +106,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, dis
                 onChange={handleFileChange}
                 className="hidden"
                 accept="image/png, image/jpeg, image/webp"
+                multiple
                 disabled={disabled}
             />
             <div className="flex flex-col items-center">
@@ -93,7 +114,7 @@ export const ImageUploader: React.FC<ImageUploaderProps> = ({ onImageUpload, dis
                 <p className="text-gray-400">
                     <span className="font-semibold text-brand-blue">Click to upload</span>, drag & drop, or paste image
                 </p>
-                <p className="text-xs text-gray-500 mt-2">PNG, JPG, WEBP</p>
+                <p className="text-xs text-gray-500 mt-2">PNG, JPG, WEBP · several files start a batch</p>
             </div>
         </div>
     </div>
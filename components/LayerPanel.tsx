@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import type { Color } from '../services/vectorizerCore';
+import {
+  deleteLayer,
+  getLayerArea,
+  getLayerContourCount,
+  mergeLayers,
+  moveLayer,
+  recolorLayer,
+  setLayerVisibility,
+} from '../services/layerService';
+import type { Layer } from '../services/layerService';
+import { EyeIcon, EyeOffIcon, MergeDownIcon, ResetIcon } from './icons';
+
+interface LayerPanelProps {
+  layers: Layer[];
+  onLayersChange: (layers: Layer[]) => void;
+}
+
+const toHex = (c: number) => c.toString(16).padStart(2, '0');
+
+const colorToHex = (color: Color) => `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+
+const hexToColor = (hex: string, alpha: number): Color => ({
+  r: parseInt(hex.slice(1, 3), 16),
+  g: parseInt(hex.slice(3, 5), 16),
+  b: parseInt(hex.slice(5, 7), 16),
+  a: alpha,
+});
+
+export const LayerPanel: React.FC<LayerPanelProps> = ({ layers, onLayersChange }) => {
+  const [draggedId, setDraggedId] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+
+  // Layers are stored bottom-to-top (paint order) but listed top-to-bottom, like most editors.
+  const listed = [...layers].reverse();
+
+  const handleDrop = (paintIndex: number) => {
+    if (draggedId !== null) {
+      onLayersChange(moveLayer(layers, draggedId, paintIndex));
+    }
+    setDraggedId(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="w-full flex flex-col bg-gray-900 rounded-lg border border-gray-700 min-h-0">
+      <div className="flex justify-between items-center p-2 border-b border-gray-700">
+        <h3 className="text-lg font-semibold text-gray-300 pl-2">Layers</h3>
+        <span className="text-xs text-gray-500 pr-2">Drag to reorder. Top of the list is drawn last.</span>
+      </div>
+      <ul className="max-h-64 overflow-auto p-2 space-y-1">
+        {listed.map((layer, listIndex) => {
+          const paintIndex = layers.length - 1 - listIndex;
+          const hex = colorToHex(layer.color);
+          return (
+            <li
+              key={layer.id}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move';
+                setDraggedId(layer.id);
+              }}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropIndex(paintIndex);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                handleDrop(paintIndex);
+              }}
+              onDragEnd={() => {
+                setDraggedId(null);
+                setDropIndex(null);
+              }}
+              className={`flex items-center space-x-2 px-2 py-1 rounded-md text-sm cursor-move transition-colors
+                ${dropIndex === paintIndex && draggedId !== layer.id ? 'bg-brand-blue/30' : 'bg-gray-800 hover:bg-gray-700'}
+                ${draggedId === layer.id ? 'opacity-50' : ''}`}
+            >
+              <button
+                onClick={() => onLayersChange(setLayerVisibility(layers, layer.id, !layer.visible))}
+                className="p-1 text-gray-400 hover:text-white"
+                title={layer.visible ? 'Hide layer' : 'Show layer'}
+                aria-pressed={layer.visible}
+              >
+                {layer.visible ? <EyeIcon className="w-4 h-4" /> : <EyeOffIcon className="w-4 h-4" />}
+              </button>
+              <input
+                type="color"
+                value={hex}
+                onChange={(e) => onLayersChange(recolorLayer(layers, layer.id, hexToColor(e.target.value, layer.color.a)))}
+                className="p-0 h-6 w-6 bg-transparent border border-gray-600 rounded cursor-pointer"
+                title="Recolor layer"
+              />
+              <span className={`font-mono flex-grow ${layer.visible ? 'text-gray-300' : 'text-gray-500 line-through'}`}>{hex}</span>
+              <span className="text-gray-400 font-mono text-xs w-20 text-right" title="Pixel area">{getLayerArea(layer).toLocaleString()} px</span>
+              <span className="text-gray-500 font-mono text-xs w-16 text-right" title="Contours">
+                {getLayerContourCount(layer)} path{getLayerContourCount(layer) === 1 ? '' : 's'}
+              </span>
+              <button
+                onClick={() => onLayersChange(mergeLayers(layers, layer.id, layers[paintIndex - 1].id))}
+                disabled={paintIndex === 0}
+                className="p-1 text-gray-400 hover:text-white disabled:opacity-30 disabled:cursor-not-allowed"
+                title="Merge into the layer below"
+              >
+                <MergeDownIcon className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => onLayersChange(deleteLayer(layers, layer.id))}
+                className="p-1 text-gray-400 hover:text-red-400"
+                title="Delete layer"
+              >
+                <ResetIcon className="w-4 h-4" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { Color, Path, Point } from '../services/vectorizerCore';
+import type { ContourRef, EditHistory, EditableShape } from '../services/pathEditService';
+import { findContourAt, getEditableNodes, pushEdit, redoEdit, undoEdit } from '../services/pathEditService';
+import { SvgPreview } from './SvgPreview';
+
+interface PathEditorProps {
+  svgCode: string;
+  wireframe: boolean;
+  layerColors: Color[];
+  // The visible traced shapes in paint order.
+  shapes: EditableShape[];
+  history: EditHistory;
+  onHistoryChange: (history: EditHistory) => void;
+  // Used to reduce a traced line to the nodes generateSvg would keep.
+  simplification: number;
+  pixelEdges: boolean;
+}
+
+// A node being dragged; `nodes` is the line as it was when the drag started, `current` as it is now.
+type NodeDrag = { index: number; nodes: Path; current: Path; moved: boolean; inserted: boolean };
+
+// Contours need at least three nodes to enclose anything; open strokes need two.
+const minNodes = (ref: ContourRef) => (ref.kind === 'contour' ? 3 : 2);
+
+// Keys typed into text fields belong to the field, not to keyboard shortcuts.
+export const isTextInput = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement && (target.isContentEditable || ['TEXTAREA', 'SELECT'].includes(target.tagName)
+    || (target instanceof HTMLInputElement && ['text', 'number', 'url', 'search'].includes(target.type)));
+
+export const PathEditor: React.FC<PathEditorProps> = ({
+  svgCode,
+  wireframe,
+  layerColors,
+  shapes,
+  history,
+  onHistoryChange,
+  simplification,
+  pixelEdges,
+}) => {
+  const [selected, setSelected] = useState<ContourRef | null>(null);
+  const [selectedNode, setSelectedNode] = useState<number | null>(null);
+  // The dragged line, drawn in the overlay until the drag ends and it becomes an edit.
+  const [draft, setDraft] = useState<Path | null>(null);
+  const dragRef = useRef<NodeDrag | null>(null);
+
+  const traced = selected ? shapes.find(entry => entry.shape === selected.shape)?.traced : undefined;
+  const nodes = draft ?? (selected && traced
+    ? getEditableNodes(traced, selected, history.edits, simplification, pixelEdges)
+    : null);
+
+  // Drop the selection once its line is gone, e.g. after deleting it or hiding its layer.
+  useEffect(() => {
+    if (selected && !nodes) {
+      setSelected(null);
+      setSelectedNode(null);
+    }
+  }, [selected, nodes]);
+
+  const commit = (points: Path | null) => {
+    if (!selected) return;
+    onHistoryChange(pushEdit(history, { ...selected, points }));
+  };
+
+  const deleteNode = () => {
+    if (!selected || !nodes || selectedNode === null) return;
+    // Removing a node from a minimal line removes the whole line.
+    commit(nodes.length > minNodes(selected) ? nodes.filter((_, i) => i !== selectedNode) : null);
+    setSelectedNode(null);
+  };
+
+  const deleteContour = () => {
+    commit(null);
+    setSelectedNode(null);
+  };
+
+  const undo = () => {
+    onHistoryChange(undoEdit(history));
+    setSelectedNode(null);
+  };
+
+  const redo = () => {
+    onHistoryChange(redoEdit(history));
+    setSelectedNode(null);
+  };
+
+  // The handlers change every render, so the listener always sees the current selection.
+  const keyHandlerRef = useRef<(e: KeyboardEvent) => void>(() => {});
+  keyHandlerRef.current = (e: KeyboardEvent) => {
+    if (isTextInput(e.target)) return;
+    const key = e.key.toLowerCase();
+    if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+      e.preventDefault();
+      if (key === 'y' || e.shiftKey) redo();
+      else undo();
+    } else if ((e.key === 'Delete' || e.key === 'Backspace') && selected) {
+      e.preventDefault();
+      if (selectedNode !== null) deleteNode();
+      else deleteContour();
+    } else if (e.key === 'Escape') {
+      setSelected(null);
+      setSelectedNode(null);
+    }
+  };
+
+  // Listens in the capture phase so node undo runs before, and instead of, the app's settings undo.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => keyHandlerRef.current(e);
+    window.addEventListener('keydown', handleKeyDown, true);
+    return () => window.removeEventListener('keydown', handleKeyDown, true);
+  }, []);
+
+  const handleCanvasClick = (point: Point) => {
+    setSelected(findContourAt(shapes, history.edits, point, 2));
+    setSelectedNode(null);
+  };
+
+  const startDrag = (e: React.PointerEvent<SVGElement>, index: number, dragNodes: Path, inserted: boolean) => {
+    if (e.button !== 0) return;
+    // Keep the preview from panning.
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { index, nodes: dragNodes, current: dragNodes, moved: false, inserted };
+    setSelectedNode(index);
+    if (inserted) setDraft(dragNodes);
+  };
+
+  const renderOverlay = (scale: number, toImage: (clientX: number, clientY: number) => Point) => {
+    if (!selected || !nodes) return null;
+    const closed = selected.kind === 'contour';
+    // Handle sizes in image units, so they stay the same size on screen at any zoom.
+    const radius = 4 / scale;
+
+    const handleMove = (e: React.PointerEvent<SVGElement>) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      drag.moved = true;
+      const point = toImage(e.clientX, e.clientY);
+      drag.current = drag.nodes.map((node, i) => (i === drag.index ? point : node));
+      setDraft(drag.current);
+    };
+
+    const handleUp = () => {
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (drag && (drag.moved || drag.inserted)) commit(drag.current);
+      setDraft(null);
+    };
+
+    const segments = nodes
+      .map((node, i) => [node, nodes[(i + 1) % nodes.length]] as const)
+      .slice(0, closed ? nodes.length : nodes.length - 1);
+
+    return (
+      <g>
+        <path
+          d={`M${nodes.map(p => `${p.x} ${p.y}`).join('L')}${closed ? 'Z' : ''}`}
+          fill="none"
+          stroke="#f97316"
+          strokeWidth={1.5}
+          vectorEffect="non-scaling-stroke"
+        />
+        {segments.map(([a, b], i) => (
+          <rect
+            key={`mid-${i}`}
+            x={(a.x + b.x) / 2 - radius * 0.6}
+            y={(a.y + b.y) / 2 - radius * 0.6}
+            width={radius * 1.2}
+            height={radius * 1.2}
+            fill="#1f2937"
+            stroke="#f97316"
+            strokeWidth={1}
+            vectorEffect="non-scaling-stroke"
+            pointerEvents="all"
+            className="cursor-copy"
+            onPointerDown={(e) => {
+              const midpoint = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+              startDrag(e, i + 1, [...nodes.slice(0, i + 1), midpoint, ...nodes.slice(i + 1)], true);
+            }}
+            onPointerMove={handleMove}
+            onPointerUp={handleUp}
+            onPointerCancel={handleUp}
+          >
+            <title>Drag to insert a node</title>
+          </rect>
+        ))}
+        {nodes.map((node, i) => (
+          <circle
+            key={`node-${i}`}
+            cx={node.x}
+            cy={node.y}
+            r={radius}
+            fill={i === selectedNode ? '#f97316' : '#ffffff'}
+            stroke="#f97316"
+            strokeWidth={1.5}
+            vectorEffect="non-scaling-stroke"
+            pointerEvents="all"
+            className="cursor-move"
+            onPointerDown={(e) => startDrag(e, i, nodes, false)}
+            onPointerMove={handleMove}
+            onPointerUp={handleUp}
+            onPointerCancel={handleUp}
+          />
+        ))}
+      </g>
+    );
+  };
+
+  const toolbarButton = 'px-2 py-1 rounded-md text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors disabled:opacity-40 disabled:cursor-not-allowed';
+
+  return (
+    <div className="relative w-full h-full">
+      <SvgPreview
+        svgCode={svgCode}
+        wireframe={wireframe}
+        layerColors={layerColors}
+        inspect={false}
+        renderOverlay={renderOverlay}
+        onCanvasClick={handleCanvasClick}
+      />
+      <div className="absolute top-2 left-2 flex items-center bg-gray-800/90 rounded-lg p-1 space-x-1">
+        <button onClick={undo} disabled={history.edits.length === 0} className={toolbarButton} title="Undo (Ctrl+Z)">Undo</button>
+        <button onClick={redo} disabled={history.undone.length === 0} className={toolbarButton} title="Redo (Ctrl+Shift+Z)">Redo</button>
+        <button onClick={deleteNode} disabled={selectedNode === null} className={toolbarButton} title="Delete the selected node (Delete)">
+          Delete node
+        </button>
+        <button onClick={deleteContour} disabled={!selected} className={toolbarButton} title="Delete the selected contour">
+          Delete {selected?.kind === 'stroke' ? 'stroke' : 'contour'}
+        </button>
+        <span className="text-xs text-gray-400 px-1">
+          {selected && nodes ? `${nodes.length} nodes` : 'Click a shape to edit its nodes'}
+        </span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { UploadedImage } from '../types';
+import { createSilhouetteMask } from '../services/vectorizerCore';
+import { loadImagePixels, pixelsToDataUrl } from '../services/backgroundRemoverService';
+
+interface SilhouettePreviewProps {
+  image: UploadedImage;
+  threshold: number | 'auto';
+  invert: boolean;
+  color: string;
+}
+
+// Thresholding a downscaled copy is fast enough to follow the slider without waiting for a trace.
+const PREVIEW_SIZE = 240;
+
+export const SilhouettePreview: React.FC<SilhouettePreviewProps> = ({ image, threshold, invert, color }) => {
+  const [pixels, setPixels] = useState<ImageData | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPixels(null);
+    loadImagePixels(image, PREVIEW_SIZE)
+      .then(result => {
+        if (!cancelled) {
+          setPixels(result);
+          setLoadError(null);
+        }
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : 'Could not load the preview.');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [image]);
+
+  const preview = useMemo(() => {
+    if (!pixels) return null;
+    const { mask, threshold: used } = createSilhouetteMask(pixels, threshold, invert);
+    const value = parseInt(color.replace('#', ''), 16) || 0;
+    for (let i = 0; i < mask.data.length; i += 4) {
+      mask.data[i] = (value >> 16) & 255;
+      mask.data[i + 1] = (value >> 8) & 255;
+      mask.data[i + 2] = value & 255;
+    }
+    return { url: pixelsToDataUrl(new ImageData(mask.data, mask.width, mask.height)), threshold: used };
+  }, [pixels, threshold, invert, color]);
+
+  if (loadError) {
+    return <p className="text-xs text-red-400">{loadError}</p>;
+  }
+
+  return (
+    <div className="flex items-center space-x-3">
+      <div className="w-24 h-24 flex items-center justify-center bg-white rounded border border-gray-600">
+        {preview && (
+          <img src={preview.url} alt="Threshold preview" className="max-w-full max-h-full" style={{ imageRendering: 'pixelated' }} />
+        )}
+      </div>
+      <p className="text-xs text-gray-500">
+        {preview
+          ? `Cut at luminance ${preview.threshold}${threshold === 'auto' ? ' (Otsu)' : ''}. Tracing smooths the edges by the Tracing Tolerance.`
+          : 'Loading preview...'}
+      </p>
+    </div>
+  );
+};
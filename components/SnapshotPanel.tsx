@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import type { Snapshot } from '../services/settingsService';
+import { ResetIcon } from './icons';
+
+interface SnapshotPanelProps {
+  snapshots: Snapshot[];
+  // The SVG on screen, to mark the snapshot that is currently shown.
+  currentSvgCode: string | null;
+  canPin: boolean;
+  onPin: (name: string) => void;
+  onRestore: (snapshot: Snapshot) => void;
+  onDelete: (id: number) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const formatKilobytes = (svgCode: string) => `${(new Blob([svgCode]).size / 1024).toFixed(1)} KB`;
+
+export const SnapshotPanel: React.FC<SnapshotPanelProps> = ({
+  snapshots,
+  currentSvgCode,
+  canPin,
+  onPin,
+  onRestore,
+  onDelete,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
+}) => {
+  const [name, setName] = useState('');
+
+  const handlePin = () => {
+    onPin(name);
+    setName('');
+  };
+
+  return (
+    <div className="w-full flex flex-col bg-gray-900 rounded-lg border border-gray-700 p-3 space-y-2">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-300">Snapshots</h3>
+        <div className="flex items-center space-x-1 text-sm">
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="Undo settings change (Ctrl+Z)"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="px-2 py-1 rounded-md bg-gray-800 hover:bg-gray-700 text-gray-300 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            title="Redo settings change (Ctrl+Shift+Z)"
+          >
+            Redo
+          </button>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2 text-sm">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && canPin) handlePin();
+          }}
+          placeholder="Snapshot name (optional)"
+          className="flex-grow bg-gray-800 border border-gray-600 rounded-md text-gray-300 px-2 py-1"
+          aria-label="Snapshot name"
+        />
+        <button
+          onClick={handlePin}
+          disabled={!canPin}
+          className="px-3 py-1 rounded-md bg-brand-blue hover:bg-blue-600 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          title="Save the current settings and result"
+        >
+          Pin
+        </button>
+      </div>
+      {snapshots.length > 0 && (
+        <ul className="max-h-64 overflow-auto space-y-1">
+          {snapshots.map(snapshot => {
+            const isCurrent = snapshot.svgCode === currentSvgCode;
+            return (
+              <li
+                key={snapshot.id}
+                className={`flex items-center space-x-2 px-2 py-1 rounded-md text-sm transition-colors ${isCurrent ? 'bg-brand-blue/30' : 'bg-gray-800 hover:bg-gray-700'}`}
+              >
+                <button
+                  onClick={() => onRestore(snapshot)}
+                  className="flex items-center space-x-2 flex-grow text-left min-w-0"
+                  title="Show this snapshot"
+                >
+                  <img
+                    src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(snapshot.svgCode)}`}
+                    alt=""
+                    className="w-10 h-10 object-contain bg-white/10 rounded"
+                  />
+                  <span className="flex-grow truncate text-gray-300">{snapshot.name}</span>
+                  <span className="text-gray-500 font-mono text-xs">{formatKilobytes(snapshot.svgCode)}</span>
+                </button>
+                <button
+                  onClick={() => onDelete(snapshot.id)}
+                  className="p-1 text-gray-400 hover:text-red-400"
+                  title="Delete snapshot"
+                >
+                  <ResetIcon className="w-4 h-4" />
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -2,13 +2,23 @@ import React from 'react';
 
 interface SpinnerProps {
   message?: string;
+  // Optional completion ratio (0-1); shows a progress bar under the message.
+  progress?: number;
 }
 
-export const Spinner: React.FC<SpinnerProps> = ({ message = 'Processing image...' }) => {
+export const Spinner: React.FC<SpinnerProps> = ({ message = 'Processing image...', progress }) => {
   return (
     <div className="flex flex-col items-center justify-center space-y-4">
       <div className="w-16 h-16 border-4 border-dashed rounded-full animate-spin border-brand-blue"></div>
       <p className="text-gray-400 text-lg text-center">{message}</p>
+      {progress !== undefined && (
+        <div className="w-48 h-2 bg-gray-700 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-brand-blue transition-all duration-200"
+            style={{ width: `${Math.round(Math.min(1, Math.max(0, progress)) * 100)}%` }}
+          />
+        </div>
+      )}
     </div>
   );
 };
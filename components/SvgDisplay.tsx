@@ -1,12 +1,72 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { CopyIcon, CheckIcon, DownloadIcon } from './icons';
+import { ComparisonView } from './ComparisonView';
+import { SvgPreview } from './SvgPreview';
+import { PathEditor } from './PathEditor';
+import { SilhouettePreview } from './SilhouettePreview';
+import type { UploadedImage } from '../types';
+import type { Color, GenerateSvgOptions, TracedData } from '../services/vectorizerCore';
+import type { ExportFormat } from '../services/exportService';
+import { EXPORT_FORMATS, exportDxf, exportEps, exportPdf } from '../services/exportService';
+import type { CodeTarget } from '../services/codeExportService';
+import { CODE_TARGET_LABELS, generateCode } from '../services/codeExportService';
+import type { RasterFormat } from '../services/rasterExportService';
+import { MAX_RASTER_SIZE, createIconBundle, getSvgSize, renderSvgToBlob } from '../services/rasterExportService';
+import type { EditHistory, EditableShape } from '../services/pathEditService';
+import type { PathMode, CurveType, HoleMode, LayeringMode, ContourTracer, QuantizerMethod, TraceMode } from '../services/vectorizerService';
 
 interface SvgDisplayProps {
   svgCode: string;
+  // The traced raster, for the comparison view.
+  sourceImage: UploadedImage | null;
+  layerColors: Color[];
+  // Node editing: the visible traced shapes, and the edits made to them.
+  editableShapes: EditableShape[];
+  editHistory: EditHistory;
+  onEditHistoryChange: (history: EditHistory) => void;
+  pixelEdges: boolean;
+  // The shapes behind the SVG, for the PDF, EPS and DXF exporters; null when only the SVG is known.
+  exportData: TracedData | null;
+  svgOptions: GenerateSvgOptions;
   simplificationLevel: number;
   onSimplificationChange: (level: number) => void;
+  traceMode: TraceMode;
+  onTraceModeChange: (mode: TraceMode) => void;
+  silhouetteThreshold: number | 'auto';
+  onSilhouetteThresholdChange: (threshold: number | 'auto') => void;
+  silhouetteInvert: boolean;
+  onSilhouetteInvertChange: (invert: boolean) => void;
+  silhouetteColor: string;
+  onSilhouetteColorChange: (color: string) => void;
   tracingTolerance: number;
   onTracingToleranceChange: (level: number) => void;
+  quantizer: QuantizerMethod;
+  onQuantizerChange: (method: QuantizerMethod) => void;
+  maxColors: number;
+  onMaxColorsChange: (count: number) => void;
+  layering: LayeringMode;
+  onLayeringChange: (mode: LayeringMode) => void;
+  tracer: ContourTracer;
+  onTracerChange: (tracer: ContourTracer) => void;
+  pathMode: PathMode;
+  onPathModeChange: (mode: PathMode) => void;
+  curveType: CurveType;
+  onCurveTypeChange: (type: CurveType) => void;
+  holeMode: HoleMode;
+  onHoleModeChange: (mode: HoleMode) => void;
+  crispEdges: boolean;
+  onCrispEdgesChange: (enabled: boolean) => void;
+  onApplyPixelArtPreset: () => void;
+  detectPrimitives: boolean;
+  onDetectPrimitivesChange: (enabled: boolean) => void;
+  primitiveTolerance: number;
+  onPrimitiveToleranceChange: (tolerance: number) => void;
+  optimizeEnabled: boolean;
+  onOptimizeEnabledChange: (enabled: boolean) => void;
+  optimizePrecision: number;
+  onOptimizePrecisionChange: (precision: number) => void;
+  // Byte size of the SVG before optimization, or null when the optimizer is off.
+  unoptimizedSize: number | null;
   strokeEnabled: boolean;
   onStrokeEnabledChange: (enabled: boolean) => void;
   strokeColor: string;
@@ -15,6 +75,23 @@ interface SvgDisplayProps {
   onStrokeWidthChange: (width: number) => void;
 }
 
+type DownloadFormat = ExportFormat | RasterFormat;
+
+const RASTER_FORMAT_LABELS: Record<RasterFormat, string> = { png: 'PNG', webp: 'WebP' };
+
+const isRasterFormat = (format: DownloadFormat): format is RasterFormat => format in RASTER_FORMAT_LABELS;
+
+const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+};
+
 const formatBytes = (bytes: number, decimals = 2) => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -27,10 +104,52 @@ const formatBytes = (bytes: number, decimals = 2) => {
 
 export const SvgDisplay: React.FC<SvgDisplayProps> = ({ 
     svgCode, 
+    sourceImage,
+    layerColors,
+    editableShapes,
+    editHistory,
+    onEditHistoryChange,
+    pixelEdges,
+    exportData,
+    svgOptions,
     simplificationLevel, 
     onSimplificationChange,
+    traceMode,
+    onTraceModeChange,
+    silhouetteThreshold,
+    onSilhouetteThresholdChange,
+    silhouetteInvert,
+    onSilhouetteInvertChange,
+    silhouetteColor,
+    onSilhouetteColorChange,
     tracingTolerance,
     onTracingToleranceChange,
+    quantizer,
+    onQuantizerChange,
+    maxColors,
+    onMaxColorsChange,
+    layering,
+    onLayeringChange,
+    tracer,
+    onTracerChange,
+    pathMode,
+    onPathModeChange,
+    curveType,
+    onCurveTypeChange,
+    holeMode,
+    onHoleModeChange,
+    crispEdges,
+    onCrispEdgesChange,
+    onApplyPixelArtPreset,
+    detectPrimitives,
+    onDetectPrimitivesChange,
+    primitiveTolerance,
+    onPrimitiveToleranceChange,
+    optimizeEnabled,
+    onOptimizeEnabledChange,
+    optimizePrecision,
+    onOptimizePrecisionChange,
+    unoptimizedSize,
     strokeEnabled,
     onStrokeEnabledChange,
     strokeColor,
@@ -39,17 +158,20 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
     onStrokeWidthChange
 }) => {
   const [copied, setCopied] = useState(false);
-  const [view, setView] = useState<'rendered' | 'wireframe'>('rendered');
+  const [view, setView] = useState<'rendered' | 'wireframe' | 'compare'>('rendered');
+  const [editing, setEditing] = useState(false);
   const [svgSize, setSvgSize] = useState(0);
-
-  const createDataUrl = (svg: string) => {
-    try {
-      return `data:image/svg+xml;base64,${btoa(svg)}`;
-    } catch (e) {
-      console.error("Failed to encode SVG", e);
-      return '';
-    }
-  };
+  const [exportFormat, setExportFormat] = useState<DownloadFormat>('svg');
+  // Raster output size: a multiple of the drawing size, or a width in pixels.
+  const [rasterSizeMode, setRasterSizeMode] = useState<'scale' | 'width'>('scale');
+  const [rasterScale, setRasterScale] = useState(4);
+  const [rasterWidth, setRasterWidth] = useState(1024);
+  const [rasterTransparent, setRasterTransparent] = useState(true);
+  const [rasterBackground, setRasterBackground] = useState('#ffffff');
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [codeTarget, setCodeTarget] = useState<CodeTarget>('svg');
+  const [useCurrentColor, setUseCurrentColor] = useState(false);
 
   const wireframeSvgCode = useMemo(() => {
     if (!svgCode) return '';
@@ -62,7 +184,11 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
   }, [svgCode]);
 
   const codeToDisplay = view === 'wireframe' ? wireframeSvgCode : svgCode;
-  const dataUrlToDisplay = useMemo(() => createDataUrl(codeToDisplay), [codeToDisplay]);
+  // Front-end code is generated from the rendered SVG, not the wireframe.
+  const generatedCode = useMemo(
+    () => codeTarget === 'svg' ? codeToDisplay : generateCode(svgCode, codeTarget, { currentColor: useCurrentColor }),
+    [codeTarget, codeToDisplay, svgCode, useCurrentColor],
+  );
 
   useEffect(() => {
     if (copied) {
@@ -77,30 +203,94 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
   }, [codeToDisplay]);
 
   const handleCopy = () => {
-    navigator.clipboard.writeText(codeToDisplay).then(() => {
+    navigator.clipboard.writeText(generatedCode).then(() => {
       setCopied(true);
     });
   };
   
+  // Vector formats other than SVG need the traced shapes, so they fall back to SVG without them.
+  const format: DownloadFormat = exportData || exportFormat === 'svg' || isRasterFormat(exportFormat) ? exportFormat : 'svg';
+  const formatLabel = isRasterFormat(format) ? RASTER_FORMAT_LABELS[format] : EXPORT_FORMATS[format].label;
+
+  const rasterSize = useMemo(() => {
+    const { width, height } = getSvgSize(svgCode);
+    const scale = rasterSizeMode === 'scale' ? rasterScale : rasterWidth / width;
+    // Keep the aspect ratio when the longer side hits the canvas limit.
+    const fit = Math.min(1, MAX_RASTER_SIZE / (width * scale), MAX_RASTER_SIZE / (height * scale));
+    return { width: Math.max(1, Math.round(width * scale * fit)), height: Math.max(1, Math.round(height * scale * fit)) };
+  }, [svgCode, rasterSizeMode, rasterScale, rasterWidth]);
+
+  // Raster exports render the SVG as shown (the wireframe too) and may take a moment at large sizes.
+  const runExport = async (task: () => Promise<void>) => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      await task();
+    } catch (err) {
+      setExportError(err instanceof Error ? err.message : 'Export failed.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleDownload = () => {
-    const filename = view === 'wireframe' ? 'converted-wireframe.svg' : 'converted.svg';
-    const blob = new Blob([codeToDisplay], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+    const suffix = view === 'wireframe' ? '-wireframe' : '';
+    if (isRasterFormat(format)) {
+      runExport(async () => {
+        const background = rasterTransparent ? null : rasterBackground;
+        const blob = await renderSvgToBlob(codeToDisplay, rasterSize.width, rasterSize.height, { format, background });
+        downloadBlob(blob, `converted${suffix}-${rasterSize.width}x${rasterSize.height}.${format}`);
+      });
+      return;
+    }
+    const { extension, mimeType } = EXPORT_FORMATS[format];
+    let content = codeToDisplay;
+    if (exportData && format === 'pdf') content = exportPdf(exportData, svgOptions);
+    else if (exportData && format === 'eps') content = exportEps(exportData, svgOptions);
+    else if (exportData && format === 'dxf') content = exportDxf(exportData, svgOptions);
+    const filename = format === 'svg' ? `converted${suffix}.svg` : `converted.${extension}`;
+    downloadBlob(new Blob([content], { type: mimeType }), filename);
   };
 
+  const handleDownloadIcons = () => runExport(async () => {
+    downloadBlob(await createIconBundle(svgCode, rasterTransparent ? null : rasterBackground), 'icons.zip');
+  });
+
   return (
     <div className="w-full h-full flex flex-col space-y-4">
       <div className="flex-1 flex flex-col bg-gray-900 rounded-lg p-4 border border-gray-700 min-h-0">
         <h3 className="text-lg font-semibold text-gray-300 mb-2">Controls & Preview</h3>
         
         <div className="flex flex-col gap-y-4 mb-4 px-1">
+          <div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-400">Tracing Mode</span>
+              <div className="flex items-center bg-gray-800 p-1 rounded-lg text-sm">
+                <button
+                  onClick={() => onTraceModeChange('outline')}
+                  className={`px-3 py-1 rounded-md transition-colors ${traceMode === 'outline' ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                  aria-pressed={traceMode === 'outline'}
+                >
+                  Outline
+                </button>
+                <button
+                  onClick={() => onTraceModeChange('centerline')}
+                  className={`px-3 py-1 rounded-md transition-colors ${traceMode === 'centerline' ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                  aria-pressed={traceMode === 'centerline'}
+                >
+                  Centerline
+                </button>
+                <button
+                  onClick={() => onTraceModeChange('silhouette')}
+                  className={`px-3 py-1 rounded-md transition-colors ${traceMode === 'silhouette' ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                  aria-pressed={traceMode === 'silhouette'}
+                >
+                  Silhouette
+                </button>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Centerline traces line art and handwriting as single strokes. Remove the background first. Silhouette traces one color from the image brightness, for stamps, engraving and icon fonts. Re-processes image.</p>
+          </div>
           <div>
             <label htmlFor="tracing-tolerance-slider" className="flex justify-between text-sm font-medium text-gray-400 mb-1">
               <span>Tracing Tolerance</span>
@@ -123,6 +313,129 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
             </div>
             <p className="text-xs text-gray-500 mt-1">Smoothes shapes before tracing. Re-processes image.</p>
           </div>
+          {traceMode === 'silhouette' ? (
+          <div className="space-y-2">
+            <label htmlFor="silhouette-threshold-slider" className="flex justify-between items-center text-sm font-medium text-gray-400">
+              <span>Threshold</span>
+              <div className="flex items-center space-x-3">
+                <label className="flex items-center space-x-1">
+                  <input
+                    type="checkbox"
+                    checked={silhouetteThreshold === 'auto'}
+                    onChange={(e) => onSilhouetteThresholdChange(e.target.checked ? 'auto' : 128)}
+                    className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+                  />
+                  <span>Auto</span>
+                </label>
+                <span>{silhouetteThreshold === 'auto' ? 'Otsu' : silhouetteThreshold}</span>
+              </div>
+            </label>
+            <input
+              id="silhouette-threshold-slider"
+              type="range"
+              min="1"
+              max="255"
+              step="1"
+              value={silhouetteThreshold === 'auto' ? 128 : silhouetteThreshold}
+              onChange={(e) => onSilhouetteThresholdChange(parseInt(e.target.value, 10))}
+              disabled={silhouetteThreshold === 'auto'}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue disabled:opacity-50"
+              aria-label="Silhouette Threshold Slider"
+            />
+            <div className="flex justify-between items-center text-sm text-gray-400">
+              <label className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  checked={silhouetteInvert}
+                  onChange={(e) => onSilhouetteInvertChange(e.target.checked)}
+                  className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+                />
+                <span>Invert (trace the light areas)</span>
+              </label>
+              <label className="flex items-center space-x-2">
+                <span>Fill</span>
+                <input
+                  type="color"
+                  value={silhouetteColor}
+                  onChange={(e) => onSilhouetteColorChange(e.target.value)}
+                  className="w-8 h-8 p-0 bg-transparent border-none rounded cursor-pointer"
+                  aria-label="Silhouette fill color"
+                />
+              </label>
+            </div>
+            {sourceImage && (
+              <SilhouettePreview image={sourceImage} threshold={silhouetteThreshold} invert={silhouetteInvert} color={silhouetteColor} />
+            )}
+            <p className="text-xs text-gray-500">Pixels {silhouetteInvert ? 'at or above' : 'below'} the luminance threshold become one filled shape. Re-processes image.</p>
+          </div>
+          ) : (
+          <>
+          <div>
+            <label htmlFor="max-colors-slider" className="flex justify-between items-center text-sm font-medium text-gray-400 mb-1">
+              <span>Max Colors</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={quantizer}
+                  onChange={(e) => onQuantizerChange(e.target.value as QuantizerMethod)}
+                  className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1"
+                  aria-label="Color Quantizer"
+                >
+                  <option value="kmeans">K-Means (Lab)</option>
+                  <option value="median-cut">Median Cut</option>
+                  <option value="grid">Fixed Grid</option>
+                  <option value="exact">Exact Colors</option>
+                </select>
+                <span>{maxColors}</span>
+              </div>
+            </label>
+            <input
+              id="max-colors-slider"
+              type="range"
+              min="2"
+              max="64"
+              step="1"
+              value={maxColors}
+              onChange={(e) => onMaxColorsChange(parseInt(e.target.value, 10))}
+              className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue"
+              aria-label="Max Colors Slider"
+            />
+            <p className="text-xs text-gray-500 mt-1">Limits the palette used to split the image into shapes. Re-processes image.</p>
+          </div>
+          <div>
+            <div className="flex justify-between items-center">
+              <label htmlFor="layering-select" className="text-sm font-medium text-gray-400">Layering</label>
+              <select
+                id="layering-select"
+                value={layering}
+                onChange={(e) => onLayeringChange(e.target.value as LayeringMode)}
+                className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1"
+              >
+                <option value="separate">Separate shapes</option>
+                <option value="stacked">Stacked (gap-free)</option>
+                <option value="shared">Shared boundaries</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Stacked and shared boundaries remove hairline seams between colors. Re-processes image.</p>
+          </div>
+          </>
+          )}
+          <div>
+            <div className="flex justify-between items-center">
+              <label htmlFor="tracer-select" className="text-sm font-medium text-gray-400">Edge Tracer</label>
+              <select
+                id="tracer-select"
+                value={tracer}
+                onChange={(e) => onTracerChange(e.target.value as ContourTracer)}
+                disabled={layering === 'shared' && traceMode !== 'silhouette'}
+                className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1 disabled:opacity-50"
+              >
+                <option value="moore">Pixel edges</option>
+                <option value="marching-squares">Sub-pixel (smooth)</option>
+                <option value="pixel-edges">Pixel grid (exact)</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Sub-pixel tracing follows the smoothed edge; best with Tracing Tolerance above 0. Pixel grid output is exact, so smoothing, complexity, curves and primitives do not apply. Re-processes image.</p>
+          </div>
           <div>
             <label htmlFor="simplification-slider" className="flex justify-between text-sm font-medium text-gray-400 mb-1">
               <span>SVG Complexity</span>
@@ -145,6 +458,144 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
             </div>
             <p className="text-xs text-gray-500 mt-1">Reduces points on traced paths. Updates in real-time.</p>
           </div>
+          <div>
+            <div className="flex justify-between items-center">
+              <span className="text-sm font-medium text-gray-400">Path Style</span>
+              <div className="flex items-center space-x-2">
+                {pathMode === 'curves' && (
+                  <select
+                    value={curveType}
+                    onChange={(e) => onCurveTypeChange(e.target.value as CurveType)}
+                    className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1"
+                    aria-label="Curve Type"
+                  >
+                    <option value="cubic">Cubic</option>
+                    <option value="quadratic">Quadratic</option>
+                  </select>
+                )}
+                <div className="flex items-center bg-gray-800 p-1 rounded-lg text-sm">
+                  <button
+                    onClick={() => onPathModeChange('polyline')}
+                    className={`px-3 py-1 rounded-md transition-colors ${pathMode === 'polyline' ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                    aria-pressed={pathMode === 'polyline'}
+                  >
+                    Polyline
+                  </button>
+                  <button
+                    onClick={() => onPathModeChange('curves')}
+                    className={`px-3 py-1 rounded-md transition-colors ${pathMode === 'curves' ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                    aria-pressed={pathMode === 'curves'}
+                  >
+                    Curves
+                  </button>
+                </div>
+              </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Curves fits smooth Bezier segments and keeps sharp corners. Updates in real-time.</p>
+          </div>
+          <div>
+            <div className="flex justify-between items-center">
+              <label htmlFor="hole-mode-select" className="text-sm font-medium text-gray-400">Holes</label>
+              <select
+                id="hole-mode-select"
+                value={holeMode}
+                onChange={(e) => onHoleModeChange(e.target.value as HoleMode)}
+                className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1"
+              >
+                <option value="evenodd">Even-odd (one path per color)</option>
+                <option value="nonzero">Nonzero (oriented subpaths)</option>
+                <option value="components">One path per component</option>
+              </select>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Controls how nested contours and holes are written to the SVG.</p>
+          </div>
+        </div>
+
+        <div className="border-t border-gray-700 pt-4 mt-2 px-1">
+            <h4 className="text-sm font-medium text-gray-400 mb-3">Pixel Art</h4>
+            <div className="flex items-center space-x-4">
+                <button
+                    onClick={onApplyPixelArtPreset}
+                    className="px-3 py-1 rounded-md text-sm bg-gray-800 border border-gray-600 text-gray-300 hover:bg-gray-700 transition-colors"
+                >
+                    Apply Pixel Art Preset
+                </button>
+                <div className="flex items-center">
+                    <input
+                        type="checkbox"
+                        id="crisp-edges-enable"
+                        checked={crispEdges}
+                        onChange={(e) => onCrispEdgesChange(e.target.checked)}
+                        className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+                    />
+                    <label htmlFor="crisp-edges-enable" className="ml-2 text-sm text-gray-300">Crisp edges</label>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Traces every pixel boundary exactly with the original colors, and renders without anti-aliasing.</p>
+        </div>
+
+        <div className="border-t border-gray-700 pt-4 mt-2 px-1">
+            <h4 className="text-sm font-medium text-gray-400 mb-3">Primitive Detection</h4>
+            <div className="flex items-center space-x-4">
+                <div className="flex items-center">
+                    <input
+                        type="checkbox"
+                        id="primitives-enable"
+                        checked={detectPrimitives}
+                        onChange={(e) => onDetectPrimitivesChange(e.target.checked)}
+                        className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+                    />
+                    <label htmlFor="primitives-enable" className="ml-2 text-sm text-gray-300">Enable</label>
+                </div>
+                <div className="flex items-center space-x-2 flex-grow">
+                    <input
+                        type="range"
+                        id="primitive-tolerance-slider"
+                        min="0.5"
+                        max="5"
+                        step="0.1"
+                        value={primitiveTolerance}
+                        onChange={(e) => onPrimitiveToleranceChange(parseFloat(e.target.value))}
+                        disabled={!detectPrimitives}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue disabled:cursor-not-allowed disabled:opacity-50"
+                        aria-label="Primitive Tolerance Slider"
+                    />
+                    <span className="text-sm text-gray-400 font-mono w-12 text-right">{primitiveTolerance.toFixed(1)}px</span>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Outputs circles, ellipses, rectangles, lines and polygons where contours match.</p>
+        </div>
+
+        <div className="border-t border-gray-700 pt-4 mt-2 px-1">
+            <h4 className="text-sm font-medium text-gray-400 mb-3">Output Optimization</h4>
+            <div className="flex items-center space-x-4">
+                <div className="flex items-center">
+                    <input
+                        type="checkbox"
+                        id="optimize-enable"
+                        checked={optimizeEnabled}
+                        onChange={(e) => onOptimizeEnabledChange(e.target.checked)}
+                        className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+                    />
+                    <label htmlFor="optimize-enable" className="ml-2 text-sm text-gray-300">Enable</label>
+                </div>
+                <div className="flex items-center space-x-2 flex-grow">
+                    <input
+                        type="range"
+                        id="optimize-precision-slider"
+                        min="0"
+                        max="3"
+                        step="1"
+                        value={optimizePrecision}
+                        onChange={(e) => onOptimizePrecisionChange(parseInt(e.target.value, 10))}
+                        disabled={!optimizeEnabled}
+                        className="w-full h-2 bg-gray-700 rounded-lg appearance-none cursor-pointer accent-brand-blue disabled:cursor-not-allowed disabled:opacity-50"
+                        aria-label="Coordinate Precision Slider"
+                    />
+                    <span className="text-sm text-gray-400 font-mono w-12 text-right">{optimizePrecision} dp</span>
+                </div>
+            </div>
+            <p className="text-xs text-gray-500 mt-1">Rounds coordinates, uses relative and H/V commands, and merges same-style paths.</p>
         </div>
 
         <div className="border-t border-gray-700 pt-4 mt-2 px-1">
@@ -189,7 +640,7 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
             </div>
         </div>
         
-        <div className="flex justify-end items-center my-4">
+        <div className="flex justify-end items-center my-4 space-x-2">
             <div className="flex items-center bg-gray-800 p-1 rounded-lg text-sm">
                 <button
                     onClick={() => setView('rendered')}
@@ -205,28 +656,107 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
                 >
                     Wireframe
                 </button>
+                <button
+                    onClick={() => setView('compare')}
+                    disabled={!sourceImage}
+                    className={`px-3 py-1 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${view === 'compare' ? 'bg-brand-blue text-white' : 'text-gray-400 hover:text-white'}`}
+                    aria-pressed={view === 'compare'}
+                >
+                    Compare
+                </button>
             </div>
+            <button
+                onClick={() => setEditing(!editing)}
+                disabled={view === 'compare' || editableShapes.length === 0}
+                className={`px-3 py-1 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed ${editing && view !== 'compare' && editableShapes.length > 0 ? 'bg-brand-blue text-white' : 'bg-gray-800 text-gray-400 hover:text-white'}`}
+                aria-pressed={editing}
+                title="Drag, insert and delete nodes of the traced contours"
+            >
+                Edit Nodes
+            </button>
         </div>
         <div className="flex-grow w-full h-full flex items-center justify-center bg-white/10 rounded p-2" style={{backgroundImage: 'url("data:image/svg+xml,%3Csvg width=\'20\' height=\'20\' viewBox=\'0 0 20 20\' xmlns=\'http://www.w3.org/2000/svg\'%3E%3Cpath d=\'M0 0h10v10H0z\' fill=\'%234a5568\'/%3E%3Cpath d=\'M10 10h10v10H10z\' fill=\'%234a5568\'/%3E%3C/svg%3E")' }}>
-          {dataUrlToDisplay ? (
-            <img src={dataUrlToDisplay} alt={`Generated SVG - ${view} view`} className="max-w-full max-h-full object-contain" />
+          {view === 'compare' && sourceImage ? (
+            <ComparisonView sourceImage={sourceImage} svgCode={svgCode} layerColors={layerColors} />
+          ) : editing && editableShapes.length > 0 ? (
+            <PathEditor
+              svgCode={svgCode}
+              wireframe={view === 'wireframe'}
+              layerColors={layerColors}
+              shapes={editableShapes}
+              history={editHistory}
+              onHistoryChange={onEditHistoryChange}
+              simplification={simplificationLevel}
+              pixelEdges={pixelEdges}
+            />
           ) : (
-            <p className="text-red-400">Invalid SVG code</p>
+            <SvgPreview svgCode={svgCode} wireframe={view === 'wireframe'} layerColors={layerColors} />
           )}
         </div>
       </div>
       <div className="h-48 flex flex-col bg-gray-900 rounded-lg border border-gray-700">
         <div className="flex justify-between items-center p-2 border-b border-gray-700">
-          <h3 className="text-lg font-semibold text-gray-300 pl-2">{view === 'rendered' ? 'Rendered' : 'Wireframe'} SVG Code</h3>
+          <div className="flex items-center space-x-2 pl-2">
+            <h3 className="text-lg font-semibold text-gray-300">
+              {codeTarget === 'svg' ? `${view === 'wireframe' ? 'Wireframe' : 'Rendered'} SVG` : CODE_TARGET_LABELS[codeTarget]} Code
+            </h3>
+            <select
+                value={codeTarget}
+                onChange={(e) => setCodeTarget(e.target.value as CodeTarget)}
+                className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1"
+                aria-label="Code target"
+            >
+                {(Object.keys(CODE_TARGET_LABELS) as CodeTarget[]).map(key => (
+                    <option key={key} value={key}>{CODE_TARGET_LABELS[key]}</option>
+                ))}
+            </select>
+            {(codeTarget === 'react' || codeTarget === 'vue') && (
+              <label className="flex items-center space-x-1 text-sm text-gray-400" title="Replace every color with currentColor so the icon follows the text color">
+                <input
+                  type="checkbox"
+                  checked={useCurrentColor}
+                  onChange={(e) => setUseCurrentColor(e.target.checked)}
+                  className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+                />
+                <span>currentColor</span>
+              </label>
+            )}
+          </div>
           <div className="flex items-center space-x-2">
-            <span className="text-sm text-gray-400 font-mono bg-gray-800 px-2 py-1 rounded-md">{formatBytes(svgSize)}</span>
+            <span className="text-sm text-gray-400 font-mono bg-gray-800 px-2 py-1 rounded-md">
+              {view !== 'wireframe' && unoptimizedSize !== null
+                ? `${formatBytes(unoptimizedSize)} → ${formatBytes(svgSize)}`
+                : formatBytes(svgSize)}
+            </span>
+            <select
+                value={format}
+                onChange={(e) => setExportFormat(e.target.value as DownloadFormat)}
+                className="bg-gray-800 border border-gray-600 rounded-md text-sm text-gray-300 px-2 py-1.5"
+                aria-label="Download format"
+            >
+                {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(key => (
+                    <option key={key} value={key} disabled={key !== 'svg' && !exportData}>{EXPORT_FORMATS[key].label}</option>
+                ))}
+                {(Object.keys(RASTER_FORMAT_LABELS) as RasterFormat[]).map(key => (
+                    <option key={key} value={key}>{RASTER_FORMAT_LABELS[key]}</option>
+                ))}
+            </select>
             <button
                 onClick={handleDownload}
-                className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-colors duration-200"
-                title="Download SVG"
+                disabled={isExporting}
+                className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white disabled:opacity-50 transition-colors duration-200"
+                title={`Download ${formatLabel}`}
             >
                 <DownloadIcon className="w-5 h-5" />
             </button>
+            <button
+                onClick={handleDownloadIcons}
+                disabled={isExporting}
+                className="px-2 py-1.5 rounded-md bg-gray-700 hover:bg-gray-600 text-sm text-gray-300 hover:text-white disabled:opacity-50 transition-colors duration-200"
+                title="Download favicons, app icons, favicon.ico and a web manifest as one ZIP"
+            >
+                Icons
+            </button>
             <button
                 onClick={handleCopy}
                 className="p-2 rounded-md bg-gray-700 hover:bg-gray-600 text-gray-300 hover:text-white transition-colors duration-200"
@@ -236,8 +766,59 @@ export const SvgDisplay: React.FC<SvgDisplayProps> = ({
             </button>
           </div>
         </div>
+        {isRasterFormat(format) && (
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-1 px-4 py-2 border-b border-gray-700 text-sm text-gray-400">
+            <label className="flex items-center space-x-2">
+              <span>Size</span>
+              <input
+                type="number"
+                min={rasterSizeMode === 'scale' ? 0.25 : 1}
+                max={rasterSizeMode === 'scale' ? 64 : MAX_RASTER_SIZE}
+                step={rasterSizeMode === 'scale' ? 0.25 : 1}
+                value={rasterSizeMode === 'scale' ? rasterScale : rasterWidth}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (!(value > 0)) return;
+                  if (rasterSizeMode === 'scale') setRasterScale(value);
+                  else setRasterWidth(Math.round(value));
+                }}
+                className="w-20 bg-gray-800 border border-gray-600 rounded-md text-gray-300 px-2 py-0.5"
+              />
+              <select
+                value={rasterSizeMode}
+                onChange={(e) => setRasterSizeMode(e.target.value as 'scale' | 'width')}
+                className="bg-gray-800 border border-gray-600 rounded-md text-gray-300 px-1 py-0.5"
+                aria-label="Size unit"
+              >
+                <option value="scale">× scale</option>
+                <option value="width">px wide</option>
+              </select>
+              <span className="font-mono text-xs text-gray-500">{rasterSize.width}×{rasterSize.height} px</span>
+            </label>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={rasterTransparent}
+                onChange={(e) => setRasterTransparent(e.target.checked)}
+                className="w-4 h-4 text-brand-blue bg-gray-700 border-gray-600 rounded focus:ring-brand-blue"
+              />
+              <span>Transparent</span>
+            </label>
+            {!rasterTransparent && (
+              <input
+                type="color"
+                value={rasterBackground}
+                onChange={(e) => setRasterBackground(e.target.value)}
+                className="w-8 h-6 p-0 bg-transparent border-none rounded cursor-pointer"
+                aria-label="Background color"
+              />
+            )}
+            <span className="text-xs text-gray-500">The background also applies to the icon bundle.</span>
+          </div>
+        )}
+        {exportError && <p className="px-4 py-1 text-sm text-red-400">{exportError}</p>}
         <pre className="flex-grow p-4 text-sm text-gray-300 overflow-auto bg-transparent min-h-0">
-          <code className="language-svg">{codeToDisplay}</code>
+          <code className={codeTarget === 'svg' ? 'language-svg' : undefined}>{generatedCode}</code>
         </pre>
       </div>
     </div>
@@ -0,0 +1,345 @@
+import React, { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react';
+import type { Color, Point } from '../services/vectorizerCore';
+import { sanitizeSvg } from '../services/svgSanitizer';
+import { splitPathData } from '../services/svgOptimizer';
+
+interface SvgPreviewProps {
+  svgCode: string;
+  // Draw every shape as a thin outline instead of its fill.
+  wireframe: boolean;
+  // Colors of the visible layers in paint order, used to name the layer under the cursor.
+  layerColors: Color[];
+  // Show the hover highlight and tooltip. Off while another tool owns the pointer.
+  inspect?: boolean;
+  // Extra SVG content drawn above the picture in image coordinates. `scale` is screen pixels per
+  // image unit; `toImage` converts pointer positions into image coordinates.
+  renderOverlay?: (scale: number, toImage: (clientX: number, clientY: number) => Point) => React.ReactNode;
+  // Called for a click that did not pan the view, in image coordinates.
+  onCanvasClick?: (point: Point) => void;
+}
+
+// Pan offset (CSS pixels) and zoom factor of the drawing inside the preview box.
+type View = { scale: number; x: number; y: number };
+
+type HoverInfo = {
+  // Tooltip position inside the preview box.
+  left: number;
+  top: number;
+  color: string;
+  element: string;
+  nodes: number;
+  // Position of the layer in the layer panel (1 is the top), if the color matches one.
+  layer: number | null;
+  contour: { index: number; count: number; nodes: number; d: string } | null;
+  // Markup of the hovered element restyled as a highlight outline.
+  outline: string;
+};
+
+const GEOMETRY_SELECTOR = 'path, circle, ellipse, rect, line, polygon, polyline';
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 64;
+
+const toHex = (c: number) => c.toString(16).padStart(2, '0');
+
+const colorToHex = (color: Color) => `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+
+/**
+ * Zooms to a new scale while keeping the given point of the preview box in place.
+ */
+const zoomView = (view: View, scale: number, anchorX: number, anchorY: number): View => {
+  const clamped = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+  const ratio = clamped / view.scale;
+  return { scale: clamped, x: anchorX - (anchorX - view.x) * ratio, y: anchorY - (anchorY - view.y) * ratio };
+};
+
+const countNodes = (element: SVGGeometryElement): number => {
+  switch (element.tagName) {
+    case 'path':
+      return (splitPathData(element.getAttribute('d') ?? '') ?? []).reduce((sum, subpath) => sum + subpath.nodes, 0);
+    case 'polygon':
+    case 'polyline':
+      return Math.floor((element.getAttribute('points') ?? '').trim().split(/[\s,]+/).length / 2);
+    case 'line':
+      return 2;
+    case 'rect':
+      return 4;
+    default:
+      return 1;
+  }
+};
+
+export const SvgPreview: React.FC<SvgPreviewProps> = ({
+  svgCode,
+  wireframe,
+  layerColors,
+  inspect = true,
+  renderOverlay,
+  onCanvasClick,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+  // Hidden path used to hit-test single subpaths.
+  const probeRef = useRef<SVGPathElement>(null);
+  const overlayRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ startX: number; startY: number; x: number; y: number; moved: boolean } | null>(null);
+  const frameRef = useRef<number | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [viewBox, setViewBox] = useState('0 0 1 1');
+  const [invalid, setInvalid] = useState(false);
+  const [view, setView] = useState<View>({ scale: 1, x: 0, y: 0 });
+  const [hover, setHover] = useState<HoverInfo | null>(null);
+
+  // Insert the sanitized drawing. The wireframe look is applied per element because a <style>
+  // inside inline SVG would restyle the whole page.
+  useLayoutEffect(() => {
+    const content = contentRef.current;
+    if (!content) return;
+    const svg = sanitizeSvg(svgCode);
+    setHover(null);
+    if (!svg) {
+      content.replaceChildren();
+      setInvalid(true);
+      return;
+    }
+    const box = svg.viewBox.baseVal;
+    const width = box && box.width > 0 ? box.width : parseFloat(svg.getAttribute('width') ?? '') || 300;
+    const height = box && box.height > 0 ? box.height : parseFloat(svg.getAttribute('height') ?? '') || 150;
+    svg.setAttribute('width', '100%');
+    svg.setAttribute('height', '100%');
+    svg.style.display = 'block';
+    if (wireframe) {
+      svg.querySelectorAll<SVGElement>(GEOMETRY_SELECTOR).forEach(element => {
+        element.style.setProperty('fill', 'none', 'important');
+        element.style.setProperty('stroke', '#007aff', 'important');
+        element.style.setProperty('stroke-width', '1', 'important');
+        element.style.setProperty('vector-effect', 'non-scaling-stroke');
+      });
+    }
+    content.replaceChildren(svg);
+    setInvalid(false);
+    setViewBox(svg.getAttribute('viewBox') ?? `0 0 ${width} ${height}`);
+    setSize(previous => previous && previous.width === width && previous.height === height ? previous : { width, height });
+  }, [svgCode, wireframe]);
+
+  const fit = useCallback(() => {
+    const container = containerRef.current;
+    if (!container || !size) return;
+    const scale = Math.min(container.clientWidth / size.width, container.clientHeight / size.height);
+    setView({
+      scale,
+      x: (container.clientWidth - size.width * scale) / 2,
+      y: (container.clientHeight - size.height * scale) / 2,
+    });
+  }, [size]);
+
+  // Fit when the drawing's dimensions change; setting changes that keep them keep the zoom.
+  useLayoutEffect(() => {
+    fit();
+  }, [fit]);
+
+  // React registers wheel listeners as passive, so zooming needs a native one to stop the page scrolling.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      setView(v => zoomView(v, v.scale * Math.exp(-e.deltaY * 0.0015), e.clientX - rect.left, e.clientY - rect.top));
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  useEffect(() => () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+  }, []);
+
+  useEffect(() => {
+    if (!inspect) setHover(null);
+  }, [inspect]);
+
+  const toImage = useCallback((clientX: number, clientY: number): Point => {
+    const matrix = overlayRef.current?.getScreenCTM();
+    if (!matrix) return { x: 0, y: 0 };
+    const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+    return { x: point.x, y: point.y };
+  }, []);
+
+  const zoomAroundCenter = (scale: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    setView(v => zoomView(v, scale, container.clientWidth / 2, container.clientHeight / 2));
+  };
+
+  /**
+   * Finds the topmost shape under the pointer and, for paths, the innermost contour.
+   */
+  const hitTest = (clientX: number, clientY: number): HoverInfo | null => {
+    const svg = contentRef.current?.querySelector('svg');
+    const container = containerRef.current;
+    const probe = probeRef.current;
+    if (!svg || !container || !probe) return null;
+
+    const elements = Array.from<SVGGeometryElement>(svg.querySelectorAll<SVGGeometryElement>(GEOMETRY_SELECTOR)).reverse();
+    for (const element of elements) {
+      const matrix = element.getScreenCTM();
+      if (!matrix) continue;
+      // In the element's own coordinates, so transforms on primitives are accounted for.
+      const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+      const strokeOnly = element.tagName === 'line' || element.getAttribute('fill') === 'none';
+      const hit = strokeOnly ? element.isPointInStroke(point) : element.isPointInFill(point);
+      if (!hit) continue;
+
+      let contour: HoverInfo['contour'] = null;
+      if (element.tagName === 'path') {
+        const subpaths = splitPathData(element.getAttribute('d') ?? '') ?? [];
+        probe.style.strokeWidth = getComputedStyle(element).strokeWidth;
+        let smallestArea = Infinity;
+        subpaths.forEach((subpath, index) => {
+          probe.setAttribute('d', subpath.d);
+          if (!(strokeOnly ? probe.isPointInStroke(point) : probe.isPointInFill(point))) return;
+          const box = probe.getBBox();
+          if (box.width * box.height < smallestArea) {
+            smallestArea = box.width * box.height;
+            contour = { index: index + 1, count: subpaths.length, nodes: subpath.nodes, d: subpath.d };
+          }
+        });
+      }
+
+      const color = (strokeOnly ? element.getAttribute('stroke') : element.getAttribute('fill')) ?? '';
+      const layerIndex = layerColors.map(colorToHex).lastIndexOf(color.toLowerCase());
+
+      const outline = element.cloneNode() as SVGElement;
+      outline.removeAttribute('style');
+      outline.removeAttribute('fill-opacity');
+      outline.removeAttribute('stroke-opacity');
+      outline.setAttribute('fill', 'none');
+      outline.setAttribute('stroke', '#22d3ee');
+      outline.setAttribute('stroke-width', '2');
+      outline.setAttribute('vector-effect', 'non-scaling-stroke');
+
+      const rect = container.getBoundingClientRect();
+      return {
+        left: clientX - rect.left + 14,
+        top: clientY - rect.top + 14,
+        color,
+        element: element.tagName,
+        nodes: countNodes(element),
+        layer: layerIndex === -1 ? null : layerColors.length - layerIndex,
+        contour,
+        outline: outline.outerHTML,
+      };
+    }
+    return null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startX: e.clientX, startY: e.clientY, x: view.x, y: view.y, moved: false };
+    setHover(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      // A few pixels of jitter still count as a click.
+      drag.moved ||= Math.hypot(e.clientX - drag.startX, e.clientY - drag.startY) > 3;
+      setView(v => ({ ...v, x: drag.x + e.clientX - drag.startX, y: drag.y + e.clientY - drag.startY }));
+      return;
+    }
+    if (!inspect) return;
+    // Hit-testing every shape is too slow to run for each pointer event; once per frame is enough.
+    const { clientX, clientY } = e;
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = requestAnimationFrame(() => {
+      frameRef.current = null;
+      setHover(hitTest(clientX, clientY));
+    });
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag && !drag.moved && e.type === 'pointerup') {
+      onCanvasClick?.(toImage(e.clientX, e.clientY));
+    }
+  };
+
+  const handlePointerLeave = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    setHover(null);
+  };
+
+  const toolbarButton = 'px-2 py-1 rounded-md text-xs text-gray-300 hover:text-white hover:bg-gray-700 transition-colors';
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full min-h-[12rem] overflow-hidden select-none cursor-grab active:cursor-grabbing"
+      style={{ touchAction: 'none' }}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={handlePointerUp}
+      onPointerLeave={handlePointerLeave}
+    >
+      {invalid && <p className="absolute inset-0 flex items-center justify-center text-red-400">Invalid SVG code</p>}
+      <div
+        className="absolute left-0 top-0 origin-top-left"
+        style={{
+          width: size?.width,
+          height: size?.height,
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+        }}
+      >
+        <div ref={contentRef} className="w-full h-full" />
+        <svg ref={overlayRef} viewBox={viewBox} className="absolute inset-0 w-full h-full pointer-events-none overflow-visible">
+          <path ref={probeRef} visibility="hidden" />
+          {hover && <g dangerouslySetInnerHTML={{ __html: hover.outline }} />}
+          {hover?.contour && (
+            <path d={hover.contour.d} fill="none" stroke="#f97316" strokeWidth={3} vectorEffect="non-scaling-stroke" />
+          )}
+          {renderOverlay?.(view.scale, toImage)}
+        </svg>
+      </div>
+
+      <div
+        className="absolute top-2 right-2 flex items-center bg-gray-800/90 rounded-lg p-1 space-x-1 cursor-default"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <button onClick={() => zoomAroundCenter(view.scale / 1.5)} className={toolbarButton} title="Zoom out">−</button>
+        <span className="text-xs text-gray-400 font-mono w-12 text-center">{Math.round(view.scale * 100)}%</span>
+        <button onClick={() => zoomAroundCenter(view.scale * 1.5)} className={toolbarButton} title="Zoom in">+</button>
+        <button onClick={fit} className={toolbarButton} title="Fit to view">Fit</button>
+        <button
+          onClick={() => zoomAroundCenter(1 / window.devicePixelRatio)}
+          className={toolbarButton}
+          title="One image pixel per screen pixel"
+        >
+          1:1
+        </button>
+      </div>
+
+      {hover && (
+        <div
+          className="absolute z-10 pointer-events-none bg-gray-900/95 border border-gray-600 rounded-md px-2 py-1 text-xs text-gray-200 font-mono space-y-0.5"
+          style={{ left: hover.left, top: hover.top }}
+        >
+          <div className="flex items-center space-x-1">
+            <span className="w-3 h-3 rounded-sm border border-gray-500" style={{ backgroundColor: hover.color }} />
+            <span>{hover.color}</span>
+            {hover.layer !== null && <span className="text-gray-400">· layer {hover.layer}</span>}
+          </div>
+          <div className="text-gray-400">&lt;{hover.element}&gt; · {hover.nodes} node{hover.nodes === 1 ? '' : 's'}</div>
+          {hover.contour && hover.contour.count > 1 && (
+            <div className="text-orange-400">
+              contour {hover.contour.index} of {hover.contour.count} · {hover.contour.nodes} nodes
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,9 +1,11 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import type { UploadedImage } from '../types';
 import { SearchIcon } from './icons';
 
 interface UrlFetcherProps {
   onImageSelect: (imageUrl: string) => void;
+  // Converts the checked images together in the batch queue.
+  onBatchSelect: (imageUrls: string[]) => void;
   disabled: boolean;
   url: string;
   setUrl: (url: string) => void;
@@ -15,6 +17,7 @@ interface UrlFetcherProps {
 
 export const UrlFetcher: React.FC<UrlFetcherProps> = ({ 
   onImageSelect, 
+  onBatchSelect,
   disabled,
   url,
   setUrl,
@@ -23,6 +26,19 @@ export const UrlFetcher: React.FC<UrlFetcherProps> = ({
   isFetching,
   error
 }) => {
+  const [checked, setChecked] = useState<Set<string>>(new Set());
+
+  // A new fetch replaces the grid, so earlier checks no longer apply.
+  useEffect(() => setChecked(new Set()), [fetchedImages]);
+
+  const toggleChecked = (imageUrl: string) => {
+    setChecked(current => {
+      const next = new Set(current);
+      if (next.has(imageUrl)) next.delete(imageUrl);
+      else next.add(imageUrl);
+      return next;
+    });
+  };
 
   const handleFetch = (e: React.FormEvent) => {
     e.preventDefault();
@@ -63,23 +79,49 @@ export const UrlFetcher: React.FC<UrlFetcherProps> = ({
         </button>
       </form>
       {error && <p className="text-red-400 text-sm text-center">{error}</p>}
+      {checked.size > 0 && (
+        <div className="flex items-center justify-between bg-gray-900/50 rounded-lg px-3 py-2 text-sm">
+          <span className="text-gray-300">{checked.size} selected</span>
+          <div className="flex items-center space-x-2">
+            <button onClick={() => setChecked(new Set())} className="px-3 py-1 rounded-md text-gray-400 hover:text-white transition-colors">
+              Clear
+            </button>
+            <button
+              onClick={() => onBatchSelect(fetchedImages.filter(imgSrc => checked.has(imgSrc)))}
+              disabled={disabled}
+              className="px-3 py-1 rounded-md bg-brand-blue hover:bg-blue-600 disabled:bg-gray-600 text-white transition-colors"
+            >
+              Convert as batch
+            </button>
+          </div>
+        </div>
+      )}
       
       <div className="flex-grow overflow-y-auto bg-gray-900/50 rounded-lg p-2 min-h-0">
         {fetchedImages.length > 0 && (
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-3 lg:grid-cols-2 xl:grid-cols-3 gap-2">
             {fetchedImages.map((imgSrc, index) => (
-              <button
-                key={index}
-                onClick={() => handleImageClick(imgSrc)}
-                disabled={disabled}
-                className="aspect-square bg-gray-800 rounded-md overflow-hidden group relative disabled:cursor-not-allowed focus:ring-2 focus:ring-brand-blue focus:outline-none"
-                aria-label={`Select image ${index + 1}`}
-              >
-                <img src={imgSrc} alt={`Fetched image ${index + 1}`} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" />
-                <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center p-2">
-                    <p className="text-white text-sm font-bold text-center">Select & Convert</p>
-                </div>
-              </button>
+              <div key={index} className="relative">
+                <button
+                  onClick={() => handleImageClick(imgSrc)}
+                  disabled={disabled}
+                  className={`w-full aspect-square bg-gray-800 rounded-md overflow-hidden group relative disabled:cursor-not-allowed focus:ring-2 focus:ring-brand-blue focus:outline-none ${checked.has(imgSrc) ? 'ring-2 ring-brand-blue' : ''}`}
+                  aria-label={`Select image ${index + 1}`}
+                >
+                  <img src={imgSrc} alt={`Fetched image ${index + 1}`} className="w-full h-full object-cover transition-transform duration-300 group-hover:scale-110" />
+                  <div className="absolute inset-0 bg-black/60 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center p-2">
+                      <p className="text-white text-sm font-bold text-center">Select & Convert</p>
+                  </div>
+                </button>
+                <input
+                  type="checkbox"
+                  checked={checked.has(imgSrc)}
+                  onChange={() => toggleChecked(imgSrc)}
+                  disabled={disabled}
+                  className="absolute top-2 left-2 w-4 h-4 accent-brand-blue cursor-pointer"
+                  aria-label={`Add image ${index + 1} to batch`}
+                />
+              </div>
             ))}
           </div>
         )}
@@ -0,0 +1,131 @@
+import type { TracedData } from './vectorizerCore';
+
+// What the search optimizes for: the most detailed output within a byte budget, or the
+// smallest output that still reaches a fidelity score (see fidelityService).
+export type AutoTuneTarget =
+  | { kind: 'size'; maxBytes: number }
+  | { kind: 'fidelity'; minScore: number };
+
+export type AutoTuneResult = {
+  simplification: number;
+  tracingTolerance: number;
+  bytes: number;
+  // Fidelity of the chosen settings; only measured when searching for fidelity.
+  score: number | null;
+  // False when no setting meets the target; the result is then the closest one found.
+  met: boolean;
+  evaluations: number;
+};
+
+export type AutoTuneContext = {
+  // The traced data for the current tolerance, reused for every simplification level.
+  tracedData: TracedData;
+  tracingTolerance: number;
+  // Produces the final markup (including any output optimization) for a simplification level.
+  render: (tracedData: TracedData, simplification: number) => string;
+  // Traces the image again at another tolerance; only called when the cached data cannot meet the target.
+  // Left out when the cached data carries layer or node edits that a new trace would not have;
+  // only simplification is searched then.
+  retrace?: (tracingTolerance: number) => Promise<TracedData>;
+  // Scores rendered markup against the source, from 0 to 100.
+  measure: (svgCode: string) => Promise<number>;
+  onEvaluation?: (count: number) => void;
+  signal?: AbortSignal;
+};
+
+// The simplification slider's range, searched in its own steps of 0.1.
+const MIN_STEP = 1;
+const MAX_STEP = 100;
+const STEP_SIZE = 0.1;
+// Tolerances tried after the current one, in the slider's range. Each one means a full trace, so
+// they go in whole steps rather than the slider's 0.2 (the panel says so).
+const TOLERANCE_STEP = 1;
+const MAX_TOLERANCE = 5;
+
+type Evaluation = { simplification: number; bytes: number; score: number | null; met: boolean };
+
+/**
+ * Searches simplification (and, if needed and allowed, tracing tolerance) for settings that meet the target.
+ * Simplification is binary-searched on cached traced data, assuming that output size and
+ * fidelity both fall as simplification rises. Other tolerances are traced only when no
+ * simplification level works with the current one.
+ * @param target The size budget or fidelity to reach.
+ * @param context Rendering, tracing and measuring callbacks.
+ * @returns The chosen settings. Rejects with an `AbortError` when the signal fires.
+ */
+export const autoTune = async (target: AutoTuneTarget, context: AutoTuneContext): Promise<AutoTuneResult> => {
+  const { render, retrace, measure, onEvaluation, signal } = context;
+  let evaluations = 0;
+
+  const evaluate = async (tracedData: TracedData, step: number): Promise<Evaluation> => {
+    if (signal?.aborted) throw new DOMException('Auto-tune was cancelled.', 'AbortError');
+    const simplification = Math.round(step * STEP_SIZE * 10) / 10;
+    const svgCode = render(tracedData, simplification);
+    const bytes = new Blob([svgCode]).size;
+    const score = target.kind === 'fidelity' ? await measure(svgCode) : null;
+    evaluations++;
+    onEvaluation?.(evaluations);
+    const met = target.kind === 'size' ? bytes <= target.maxBytes : score! >= target.minScore;
+    return { simplification, bytes, score, met };
+  };
+
+  // Size: the lowest simplification within budget. Fidelity: the highest that still scores
+  // high enough. Either way the answer is the boundary between met and unmet steps.
+  const searchSimplification = async (tracedData: TracedData): Promise<Evaluation> => {
+    const metAtHigh = target.kind === 'size';
+    const [first, last] = metAtHigh ? [MAX_STEP, MIN_STEP] : [MIN_STEP, MAX_STEP];
+    const boundary = await evaluate(tracedData, first);
+    if (!boundary.met) return boundary;
+    const other = await evaluate(tracedData, last);
+    if (other.met) return other;
+
+    let best = boundary;
+    let metStep = first;
+    let unmetStep = last;
+    while (Math.abs(metStep - unmetStep) > 1) {
+      const middle = Math.floor((metStep + unmetStep) / 2);
+      const result = await evaluate(tracedData, middle);
+      if (result.met) {
+        metStep = middle;
+        best = result;
+      } else {
+        unmetStep = middle;
+      }
+    }
+    return best;
+  };
+
+  // Closer is smaller for a size budget and higher-scoring for a fidelity target.
+  const isCloser = (a: Evaluation, b: Evaluation) =>
+    target.kind === 'size' ? a.bytes < b.bytes : a.score! > b.score!;
+
+  let bestTolerance = context.tracingTolerance;
+  let best = await searchSimplification(context.tracedData);
+
+  if (!best.met && retrace) {
+    // More smoothing shrinks the output; less smoothing keeps more detail.
+    const direction = target.kind === 'size' ? 1 : -1;
+    for (
+      let tolerance = context.tracingTolerance + direction * TOLERANCE_STEP;
+      tolerance >= 0 && tolerance <= MAX_TOLERANCE;
+      tolerance += direction * TOLERANCE_STEP
+    ) {
+      const rounded = Math.round(tolerance * 10) / 10;
+      const result = await searchSimplification(await retrace(rounded));
+      if (result.met || isCloser(result, best)) {
+        best = result;
+        bestTolerance = rounded;
+      }
+      if (result.met) break;
+    }
+  }
+
+  return {
+    simplification: best.simplification,
+    tracingTolerance: bestTolerance,
+    bytes: best.bytes,
+    score: best.score,
+    met: best.met,
+    evaluations,
+  };
+};
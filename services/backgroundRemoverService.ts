@@ -1,6 +1,75 @@
 import type { UploadedImage } from '../types';
+import type { Color, Point, RasterImage } from './vectorizerCore';
 
-type Color = { r: number; g: number; b: number; a: number };
+// 'global' clears every pixel close to the background color anywhere in the image.
+// 'flood' only clears background-colored regions connected to the seed points.
+// 'none' skips automatic removal, so only explicitly picked colors are cleared.
+export type BackgroundRemovalMode = 'none' | 'global' | 'flood';
+
+// 'corner' uses the top-left pixel (or each flood seed's own color) as the background.
+// 'border' samples the whole image border and fits a background model to it.
+export type BackgroundDetection = 'corner' | 'border';
+
+// How 'border' detection models the background: dominant color clusters, a linear or
+// radial gradient, or whichever of those fits the border samples best.
+export type BackgroundModelSetting = 'auto' | 'solid' | 'linear' | 'radial';
+
+// The single detection choice shown in the app: 'corner' samples only the top-left pixel; the
+// model settings analyze the whole border.
+export type BackgroundDetectionSetting = 'corner' | BackgroundModelSetting;
+
+export type DetectedBackground =
+    | { model: 'solid'; colors: Color[] }
+    // Gradient colors are evaluated from per-channel coefficients over the model's features.
+    // `colors` holds representative stops for display.
+    | { model: 'linear' | 'radial'; colors: Color[]; coefficients: number[][] };
+
+// A color chosen with the eyedropper, removed in addition to the automatic background.
+export type PickedBackgroundColor = {
+    color: Color;
+    tolerance: number;
+    // When set, only the region connected to this point is removed; otherwise the color
+    // is removed everywhere in the image.
+    point?: Point;
+};
+
+export type BackgroundRemovalOptions = {
+    mode?: BackgroundRemovalMode;
+    detection?: BackgroundDetection;
+    model?: BackgroundModelSetting;
+    // Maximum number of dominant border color clusters treated as background ('solid' model).
+    maxBackgroundColors?: number;
+    // The color similarity tolerance. A lower value means a stricter match.
+    tolerance?: number;
+    // Flood-fill seeds in image pixel coordinates. Defaults to the four corners
+    // ('corner' detection) or every border pixel that matches the background ('border').
+    seeds?: Point[];
+    // Width in pixels of the alpha ramp along the edge of the removed region.
+    feather?: number;
+    pickedColors?: PickedBackgroundColor[];
+};
+
+export type BackgroundRemovalResult = {
+    image: UploadedImage;
+    // The background that was removed, or null if nothing was removed.
+    background: DetectedBackground | null;
+};
+
+export const DEFAULT_BACKGROUND_TOLERANCE = 20;
+
+export const DEFAULT_BACKGROUND_OPTIONS: Required<BackgroundRemovalOptions> = {
+    mode: 'flood',
+    detection: 'border',
+    model: 'auto',
+    maxBackgroundColors: 1,
+    tolerance: DEFAULT_BACKGROUND_TOLERANCE,
+    seeds: [],
+    feather: 0,
+    pickedColors: [],
+};
+
+// Tests whether the pixel at the given index belongs to the background.
+type PixelMatcher = (index: number) => boolean;
 
 /**
  * Calculates the Euclidean distance between two colors in RGB space.
@@ -22,7 +91,7 @@ const colorDistance = (c1: Omit<Color, 'a'>, c2: Omit<Color, 'a'>): number => {
  * @param y The y-coordinate of the pixel.
  * @returns The color of the pixel.
  */
-const getPixel = (imageData: ImageData, x: number, y: number): Color => {
+const getPixel = (imageData: RasterImage, x: number, y: number): Color => {
     const i = (y * imageData.width + x) * 4;
     return {
         r: imageData.data[i],
@@ -33,13 +102,444 @@ const getPixel = (imageData: ImageData, x: number, y: number): Color => {
 };
 
 /**
- * Removes the background of an image based on the color of its top-left corner.
- * Pixels with a color similar to the corner color are made transparent.
+ * Creates a matcher for pixels within `tolerance` of any of the given colors.
+ */
+const matchColors = (imageData: RasterImage, colors: Color[], tolerance: number): PixelMatcher => {
+    const { data } = imageData;
+    return (index) => {
+        const i = index * 4;
+        const pixel = { r: data[i], g: data[i + 1], b: data[i + 2] };
+        return colors.some(color => colorDistance(pixel, color) < tolerance);
+    };
+};
+
+/**
+ * Collects the opaque pixels along the image border, with their positions.
+ */
+const sampleBorder = (imageData: RasterImage): { point: Point; color: Color }[] => {
+    const { width, height } = imageData;
+    const samples: { point: Point; color: Color }[] = [];
+    const add = (x: number, y: number) => {
+        const color = getPixel(imageData, x, y);
+        if (color.a >= 128) samples.push({ point: { x, y }, color });
+    };
+    for (let x = 0; x < width; x++) {
+        add(x, 0);
+        if (height > 1) add(x, height - 1);
+    }
+    for (let y = 1; y < height - 1; y++) {
+        add(0, y);
+        if (width > 1) add(width - 1, y);
+    }
+    return samples;
+};
+
+/**
+ * Greedily clusters colors: each color joins the first cluster whose running mean is within
+ * `tolerance`, otherwise it starts a new cluster. Clusters are sorted by size.
+ */
+const clusterColors = (colors: Color[], tolerance: number): { color: Color; count: number }[] => {
+    const clusters: { sum: number[]; count: number; color: Color }[] = [];
+    for (const color of colors) {
+        let cluster = clusters.find(c => colorDistance(c.color, color) < tolerance);
+        if (!cluster) {
+            cluster = { sum: [0, 0, 0], count: 0, color };
+            clusters.push(cluster);
+        }
+        cluster.sum[0] += color.r;
+        cluster.sum[1] += color.g;
+        cluster.sum[2] += color.b;
+        cluster.count++;
+        cluster.color = {
+            r: Math.round(cluster.sum[0] / cluster.count),
+            g: Math.round(cluster.sum[1] / cluster.count),
+            b: Math.round(cluster.sum[2] / cluster.count),
+            a: 255,
+        };
+    }
+    return clusters
+        .sort((a, b) => b.count - a.count)
+        .map(({ color, count }) => ({ color, count }));
+};
+
+/**
+ * Solves the linear system `a * x = b` with Gaussian elimination and partial pivoting.
+ * @returns The solution, or null if the system is singular.
+ */
+const solveLinearSystem = (a: number[][], b: number[]): number[] | null => {
+    const n = b.length;
+    const m = a.map((row, i) => [...row, b[i]]);
+    for (let col = 0; col < n; col++) {
+        let pivot = col;
+        for (let row = col + 1; row < n; row++) {
+            if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+        }
+        if (Math.abs(m[pivot][col]) < 1e-12) return null;
+        [m[col], m[pivot]] = [m[pivot], m[col]];
+        for (let row = col + 1; row < n; row++) {
+            const factor = m[row][col] / m[col][col];
+            for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+        }
+    }
+    const x = new Array(n).fill(0);
+    for (let row = n - 1; row >= 0; row--) {
+        let sum = m[row][n];
+        for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+        x[row] = sum / m[row][row];
+    }
+    return x;
+};
+
+/**
+ * Returns the regression features of a pixel position for a gradient model:
+ * [1, x, y] (normalized) for linear, [1, r] (distance from the center) for radial.
+ */
+const gradientFeatures = (model: 'linear' | 'radial', x: number, y: number, width: number, height: number): number[] => {
+    if (model === 'linear') {
+        return [1, x / Math.max(1, width - 1), y / Math.max(1, height - 1)];
+    }
+    const cx = (width - 1) / 2;
+    const cy = (height - 1) / 2;
+    return [1, Math.hypot(x - cx, y - cy) / Math.max(1, Math.hypot(cx, cy))];
+};
+
+const evaluateGradient = (coefficients: number[][], features: number[]): Color => {
+    const channel = (c: number) => Math.max(0, Math.min(255, Math.round(
+        coefficients[c].reduce((sum, coefficient, k) => sum + coefficient * features[k], 0)
+    )));
+    return { r: channel(0), g: channel(1), b: channel(2), a: 255 };
+};
+
+/**
+ * Fits a per-channel least-squares gradient to the border samples. Samples far from the
+ * first fit (watermarks, logos touching the edge) are dropped before refitting.
+ */
+const fitGradient = (
+    samples: { point: Point; color: Color }[],
+    model: 'linear' | 'radial',
+    width: number,
+    height: number,
+    tolerance: number,
+): DetectedBackground | null => {
+    const fit = (subset: typeof samples): number[][] | null => {
+        const features = subset.map(s => gradientFeatures(model, s.point.x, s.point.y, width, height));
+        const k = features[0]?.length ?? 0;
+        const ata = Array.from({ length: k }, () => new Array(k).fill(0));
+        for (const f of features) {
+            for (let i = 0; i < k; i++) {
+                for (let j = 0; j < k; j++) ata[i][j] += f[i] * f[j];
+            }
+        }
+        const coefficients: number[][] = [];
+        for (const key of ['r', 'g', 'b'] as const) {
+            const atb = new Array(k).fill(0);
+            features.forEach((f, s) => {
+                for (let i = 0; i < k; i++) atb[i] += f[i] * subset[s].color[key];
+            });
+            const solution = solveLinearSystem(ata, atb);
+            if (!solution) return null;
+            coefficients.push(solution);
+        }
+        return coefficients;
+    };
+
+    if (samples.length < 3) return null;
+    let coefficients = fit(samples);
+    if (!coefficients) return null;
+    const residual = (s: { point: Point; color: Color }, coeffs: number[][]) =>
+        colorDistance(s.color, evaluateGradient(coeffs, gradientFeatures(model, s.point.x, s.point.y, width, height)));
+    const inliers = samples.filter(s => residual(s, coefficients!) < tolerance * 2);
+    if (inliers.length >= 3 && inliers.length < samples.length) {
+        coefficients = fit(inliers) ?? coefficients;
+    }
+
+    const stops: Point[] = model === 'linear'
+        ? [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: 0, y: height - 1 }, { x: width - 1, y: height - 1 }]
+        : [{ x: (width - 1) / 2, y: (height - 1) / 2 }, { x: 0, y: 0 }];
+    const colors: Color[] = [];
+    for (const stop of stops) {
+        const color = evaluateGradient(coefficients, gradientFeatures(model, stop.x, stop.y, width, height));
+        if (!colors.some(c => colorDistance(c, color) < 1)) colors.push(color);
+    }
+    return { model, colors, coefficients };
+};
+
+/**
+ * Creates a matcher for a detected background model.
+ */
+const matchBackground = (imageData: RasterImage, background: DetectedBackground, tolerance: number): PixelMatcher => {
+    if (background.model === 'solid') {
+        return matchColors(imageData, background.colors, tolerance);
+    }
+    const { width, height, data } = imageData;
+    const { model, coefficients } = background;
+    return (index) => {
+        const x = index % width;
+        const y = (index - x) / width;
+        const expected = evaluateGradient(coefficients, gradientFeatures(model, x, y, width, height));
+        const i = index * 4;
+        return colorDistance({ r: data[i], g: data[i + 1], b: data[i + 2] }, expected) < tolerance;
+    };
+};
+
+/**
+ * Estimates the background from the colors along the whole image border.
+ * @param imageData The image to analyze.
+ * @param options The background model, cluster count and tolerance.
+ * @returns The detected background, or null if the border is transparent.
+ */
+export const detectBackground = (imageData: RasterImage, options: BackgroundRemovalOptions = {}): DetectedBackground | null => {
+    const { model, maxBackgroundColors, tolerance } = { ...DEFAULT_BACKGROUND_OPTIONS, ...options };
+    const { width, height } = imageData;
+    const samples = sampleBorder(imageData);
+    if (samples.length === 0) return null;
+
+    // Clusters covering less than a tenth of the border are treated as foreground touching
+    // the edge (or watermarks), never as background.
+    const clusters = clusterColors(samples.map(s => s.color), tolerance);
+    const dominant = clusters
+        .slice(0, Math.max(1, maxBackgroundColors))
+        .filter((cluster, i) => i === 0 || cluster.count >= samples.length * 0.1);
+    const candidates: DetectedBackground[] = [{ model: 'solid', colors: dominant.map(c => c.color) }];
+
+    if (model === 'linear' || model === 'radial' || model === 'auto') {
+        for (const gradient of model === 'auto' ? ['linear', 'radial'] as const : [model]) {
+            const fitted = fitGradient(samples, gradient, width, height, tolerance);
+            if (fitted) candidates.push(fitted);
+        }
+    }
+    if (model !== 'auto') {
+        return candidates.find(c => c.model === model) ?? candidates[0];
+    }
+
+    // Prefer the simplest model unless a gradient explains clearly more of the border.
+    const inlierShare = (background: DetectedBackground) => {
+        const matches = matchBackground(imageData, background, tolerance);
+        return samples.filter(s => matches(s.point.y * width + s.point.x)).length / samples.length;
+    };
+    let best = candidates[0];
+    let bestShare = inlierShare(best);
+    for (const candidate of candidates.slice(1)) {
+        const share = inlierShare(candidate);
+        if (share > bestShare + 0.05) {
+            best = candidate;
+            bestShare = share;
+        }
+    }
+    return best;
+};
+
+/**
+ * Marks every pixel accepted by the matcher.
+ */
+const buildGlobalMask = (imageData: RasterImage, matches: PixelMatcher): Uint8Array => {
+    const mask = new Uint8Array(imageData.width * imageData.height);
+    for (let p = 0; p < mask.length; p++) {
+        if (matches(p)) {
+            mask[p] = 1;
+        }
+    }
+    return mask;
+};
+
+/**
+ * Marks the background regions reachable from the seed points. Each seed floods
+ * (4-connected) through pixels accepted by its matcher, and through pixels that are
+ * already transparent, so enclosed areas such as the inside of letters are kept.
+ * @param matcherForSeed Returns the matcher for a seed, or null to skip the seed.
+ */
+const buildFloodMask = (
+    imageData: RasterImage,
+    seeds: Point[],
+    matcherForSeed: (seed: Point) => PixelMatcher | null,
+): Uint8Array => {
+    const { width, height, data } = imageData;
+    const mask = new Uint8Array(width * height);
+    const stack: number[] = [];
+
+    for (const seed of seeds) {
+        const sx = Math.round(seed.x);
+        const sy = Math.round(seed.y);
+        if (sx < 0 || sy < 0 || sx >= width || sy >= height || mask[sy * width + sx]) continue;
+
+        const matcher = matcherForSeed({ x: sx, y: sy });
+        if (!matcher) continue;
+        const matches = (index: number) => data[index * 4 + 3] < 128 || matcher(index);
+
+        mask[sy * width + sx] = 1;
+        stack.push(sy * width + sx);
+        while (stack.length > 0) {
+            const index = stack.pop()!;
+            const x = index % width;
+            const y = (index - x) / width;
+            const neighbours = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                y > 0 ? index - width : -1,
+                y < height - 1 ? index + width : -1,
+            ];
+            for (const next of neighbours) {
+                if (next >= 0 && !mask[next] && matches(next)) {
+                    mask[next] = 1;
+                    stack.push(next);
+                }
+            }
+        }
+    }
+    return mask;
+};
+
+/**
+ * Clears the masked pixels and, if feathering is enabled, ramps the alpha of foreground
+ * pixels within `feather` pixels (4-connected distance) of the removed region.
+ */
+const applyBackgroundMask = (imageData: RasterImage, mask: Uint8Array, feather: number): void => {
+    const { width, height, data } = imageData;
+    const radius = Math.max(0, Math.floor(feather));
+    const distance = new Int32Array(mask.length).fill(-1);
+    let frontier: number[] = [];
+
+    for (let p = 0; p < mask.length; p++) {
+        if (mask[p]) {
+            data[p * 4 + 3] = 0;
+            distance[p] = 0;
+            frontier.push(p);
+        }
+    }
+
+    for (let d = 1; d <= radius && frontier.length > 0; d++) {
+        const next: number[] = [];
+        for (const index of frontier) {
+            const x = index % width;
+            const y = (index - x) / width;
+            const neighbours = [
+                x > 0 ? index - 1 : -1,
+                x < width - 1 ? index + 1 : -1,
+                y > 0 ? index - width : -1,
+                y < height - 1 ? index + width : -1,
+            ];
+            for (const n of neighbours) {
+                if (n >= 0 && distance[n] === -1) {
+                    distance[n] = d;
+                    data[n * 4 + 3] = Math.round(data[n * 4 + 3] * (d / (radius + 1)));
+                    next.push(n);
+                }
+            }
+        }
+        frontier = next;
+    }
+};
+
+/**
+ * Builds the mask for the automatic part of background removal (everything except picked colors).
+ * @returns The mask and the background it represents, or null if nothing should be removed.
+ */
+const buildAutomaticMask = (
+    imageData: RasterImage,
+    options: BackgroundRemovalOptions,
+): { mask: Uint8Array; background: DetectedBackground } | null => {
+    const { width, height } = imageData;
+    const { mode, detection, tolerance, seeds } = { ...DEFAULT_BACKGROUND_OPTIONS, ...options };
+    if (mode === 'none') {
+        return null;
+    }
+    let background: DetectedBackground | null;
+    let mask: Uint8Array;
+
+    if (detection === 'border') {
+        background = detectBackground(imageData, options);
+        if (!background) return null;
+        const matches = matchBackground(imageData, background, tolerance);
+        if (mode === 'global') {
+            mask = buildGlobalMask(imageData, matches);
+        } else {
+            const borderSeeds = seeds.length > 0
+                ? seeds
+                : sampleBorder(imageData).map(s => s.point).filter(p => matches(p.y * width + p.x));
+            mask = buildFloodMask(imageData, borderSeeds, () => matches);
+        }
+    } else if (mode === 'global') {
+        // Assume the top-left corner is the background color.
+        const backgroundColor = getPixel(imageData, 0, 0);
+
+        // If the determined background is already transparent, no need to process.
+        if (backgroundColor.a < 128) {
+            return null;
+        }
+        background = { model: 'solid', colors: [backgroundColor] };
+        mask = buildGlobalMask(imageData, matchColors(imageData, [backgroundColor], tolerance));
+    } else {
+        const cornerSeeds = seeds.length > 0
+            ? seeds
+            : [{ x: 0, y: 0 }, { x: width - 1, y: 0 }, { x: 0, y: height - 1 }, { x: width - 1, y: height - 1 }];
+        const seedColors: Color[] = [];
+        mask = buildFloodMask(imageData, cornerSeeds, (seed) => {
+            const seedColor = getPixel(imageData, seed.x, seed.y);
+            if (seedColor.a < 128) return null;
+            if (!seedColors.some(c => colorDistance(c, seedColor) < 1)) seedColors.push(seedColor);
+            return matchColors(imageData, [seedColor], tolerance);
+        });
+        if (seedColors.length === 0) return null;
+        background = { model: 'solid', colors: seedColors };
+    }
+
+    return { mask, background };
+};
+
+/**
+ * Removes the background from raw RGBA pixels, in place.
+ * Works on raw RGBA buffers, so it can be used outside the browser.
+ * @param imageData The pixels to process.
+ * @param options The removal mode, background detection, tolerance, flood-fill seeds,
+ * picked colors and feathering.
+ * @returns The background that was removed, or null if there was no opaque background
+ * and nothing was changed.
+ */
+export const removeBackgroundPixels = (imageData: RasterImage, options: BackgroundRemovalOptions = {}): DetectedBackground | null => {
+    const { width, height } = imageData;
+    if (width === 0 || height === 0) {
+        return null;
+    }
+
+    const { feather, pickedColors } = { ...DEFAULT_BACKGROUND_OPTIONS, ...options };
+    const automatic = buildAutomaticMask(imageData, options);
+    const mask = automatic?.mask ?? new Uint8Array(width * height);
+    let background = automatic?.background ?? null;
+
+    for (const pick of pickedColors) {
+        const matches = matchColors(imageData, [pick.color], pick.tolerance);
+        const pickMask = pick.point
+            ? buildFloodMask(imageData, [pick.point], () => matches)
+            : buildGlobalMask(imageData, matches);
+        for (let p = 0; p < mask.length; p++) {
+            mask[p] |= pickMask[p];
+        }
+    }
+
+    if (pickedColors.length > 0) {
+        const pickedList = pickedColors.map(pick => ({ ...pick.color, a: 255 }));
+        background = background
+            ? { ...background, colors: [...background.colors, ...pickedList] }
+            : { model: 'solid', colors: pickedList };
+    }
+    if (!background) {
+        return null;
+    }
+
+    applyBackgroundMask(imageData, mask, feather);
+    return background;
+};
+
+/**
+ * Removes the background of an image, either by matching its color everywhere or by
+ * flood-filling from the edges (or chosen seed points). The background is taken from
+ * the top-left pixel or estimated from the whole border, depending on `detection`.
  * @param image The uploaded image to process.
- * @param tolerance The color similarity tolerance. A lower value means a stricter match.
- * @returns A promise that resolves to the processed image as a PNG.
+ * @param options The removal mode, background detection, tolerance, flood-fill seeds and feathering.
+ * @returns A promise that resolves to the processed image as a PNG, along with the
+ * background that was removed.
  */
-export const removeImageBackground = (image: UploadedImage, tolerance: number = 20): Promise<UploadedImage> => {
+export const removeImageBackground = (image: UploadedImage, options: BackgroundRemovalOptions = {}): Promise<BackgroundRemovalResult> => {
     return new Promise((resolve, reject) => {
         const img = new Image();
         img.onload = () => {
@@ -53,38 +553,57 @@ export const removeImageBackground = (image: UploadedImage, tolerance: number =
             ctx.drawImage(img, 0, 0);
 
             if (img.width === 0 || img.height === 0) {
-                return resolve(image); // Return original if image is empty
+                return resolve({ image, background: null }); // Return original if image is empty
             }
 
             const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-            const { data } = imageData;
-
-            // Assume the top-left corner is the background color.
-            const backgroundColor = getPixel(imageData, 0, 0);
-
-            // If the determined background is already transparent, no need to process.
-            if (backgroundColor.a < 128) {
-                return resolve(image);
-            }
-
-            for (let i = 0; i < data.length; i += 4) {
-                const r = data[i];
-                const g = data[i + 1];
-                const b = data[i + 2];
-                
-                const distance = colorDistance({ r, g, b }, backgroundColor);
-                
-                if (distance < tolerance) {
-                    // Make this pixel transparent
-                    data[i + 3] = 0;
-                }
+            const background = removeBackgroundPixels(imageData, options);
+            if (!background) {
+                return resolve({ image, background: null });
             }
 
             ctx.putImageData(imageData, 0, 0);
             const newDataUrl = canvas.toDataURL('image/png'); // Always output PNG for transparency
-            resolve({ dataUrl: newDataUrl, mimeType: 'image/png' });
+            resolve({ image: { dataUrl: newDataUrl, mimeType: 'image/png' }, background });
         };
         img.onerror = () => reject(new Error('Failed to load image for background removal.'));
         img.src = image.dataUrl;
     });
 };
+
+/**
+ * Decodes an image into raw RGBA pixels, for previews and color picking.
+ * @param image The uploaded image to decode.
+ * @param maxDimension Optional limit on the longer side; larger images are downscaled to fit.
+ * @returns A promise that resolves to the decoded pixels.
+ */
+export const loadImagePixels = (image: UploadedImage, maxDimension = Infinity): Promise<ImageData> => {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => {
+            const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.max(1, Math.round(img.width * scale));
+            canvas.height = Math.max(1, Math.round(img.height * scale));
+            const ctx = canvas.getContext('2d');
+            if (!ctx) {
+                return reject(new Error('Could not get canvas context.'));
+            }
+            ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+            resolve(ctx.getImageData(0, 0, canvas.width, canvas.height));
+        };
+        img.onerror = () => reject(new Error('Failed to load image pixels.'));
+        img.src = image.dataUrl;
+    });
+};
+
+/**
+ * Encodes raw RGBA pixels as a PNG data URL.
+ */
+export const pixelsToDataUrl = (imageData: ImageData): string => {
+    const canvas = document.createElement('canvas');
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    canvas.getContext('2d')?.putImageData(imageData, 0, 0);
+    return canvas.toDataURL('image/png');
+};
@@ -0,0 +1,96 @@
+import type { UploadedImage } from '../types';
+import { traceImage, generateSvg } from './vectorizerService';
+import { removeImageBackground } from './backgroundRemoverService';
+import { imageUrlToDataUrl } from './imageFetcherService';
+import type { ConversionSettings } from './settingsService';
+import { applyOutputOptimizer, areSettingsEqual, getBackgroundRemovalOptions } from './settingsService';
+import { createZip } from './zipService';
+
+export type BatchStatus = 'queued' | 'converting' | 'done' | 'error';
+
+// Per-item changes to the shared settings; anything left out follows the shared profile.
+export type SettingsOverrides = { [Group in keyof ConversionSettings]?: Partial<ConversionSettings[Group]> };
+
+export type BatchItem = {
+  id: number;
+  // File name without extension, used for the SVG inside the ZIP.
+  name: string;
+  // Uploaded files carry their pixels; images picked from a web page are fetched when converted.
+  image?: UploadedImage;
+  url?: string;
+  overrides: SettingsOverrides;
+  status: BatchStatus;
+  svgCode?: string;
+  error?: string;
+  // The settings the current result was made with, to tell when it is out of date.
+  convertedWith?: ConversionSettings;
+};
+
+export const applyOverrides = (settings: ConversionSettings, overrides: SettingsOverrides): ConversionSettings => ({
+  trace: { ...settings.trace, ...overrides.trace },
+  svg: { ...settings.svg, ...overrides.svg },
+  optimize: { ...settings.optimize, ...overrides.optimize },
+  background: { ...settings.background, ...overrides.background },
+});
+
+/**
+ * Whether an item needs converting: never converted, failed, or converted with other settings.
+ */
+export const isBatchItemPending = (item: BatchItem, settings: ConversionSettings): boolean =>
+  item.status !== 'done' || !item.convertedWith || !areSettingsEqual(item.convertedWith, applyOverrides(settings, item.overrides));
+
+/**
+ * Derives a batch item name from a file name or URL: the last path segment without extension.
+ */
+export const getItemName = (source: string, fallback: string): string => {
+  const segment = source.split(/[?#]/)[0].split('/').pop() ?? '';
+  let decoded = segment;
+  try {
+    decoded = decodeURIComponent(segment);
+  } catch {
+    // Keep the raw segment if it is not valid percent-encoding.
+  }
+  const name = decoded.replace(/\.[^.]*$/, '').replace(/[\\/:*?"<>|]+/g, '-').trim();
+  return name || fallback;
+};
+
+/**
+ * Converts one image with the given settings: background removal, tracing, SVG generation and
+ * output optimization, the same steps as a single conversion without a crop.
+ * @param image The image to convert.
+ * @param settings The settings for this image, overrides included.
+ * @param signal Cancels the trace.
+ */
+export const convertImage = async (image: UploadedImage, settings: ConversionSettings, signal?: AbortSignal): Promise<string> => {
+  let source = image;
+  if (settings.background.mode !== 'none') {
+    source = (await removeImageBackground(image, getBackgroundRemovalOptions(settings.background))).image;
+  }
+  const tracedData = await traceImage(source.dataUrl, settings.trace, { signal });
+  return applyOutputOptimizer(generateSvg(tracedData, settings.svg), settings.optimize, settings.svg.holeMode);
+};
+
+/**
+ * Converts a batch item, fetching its image first if it came from a URL.
+ */
+export const convertBatchItem = async (item: BatchItem, settings: ConversionSettings, signal?: AbortSignal): Promise<string> => {
+  const image = item.image ?? await imageUrlToDataUrl(item.url ?? '');
+  return convertImage(image, applyOverrides(settings, item.overrides), signal);
+};
+
+/**
+ * Packs the finished SVGs into one ZIP. An item whose name is already taken, including by a
+ * numbered name given earlier, gets the next free number.
+ */
+export const createSvgZip = (items: BatchItem[]): Blob => {
+  const used = new Set<string>();
+  const entries = items
+    .filter(item => item.status === 'done' && item.svgCode)
+    .map(item => {
+      let name = item.name;
+      for (let count = 2; used.has(name); count++) name = `${item.name}-${count}`;
+      used.add(name);
+      return { name: `${name}.svg`, data: item.svgCode! };
+    });
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
@@ -0,0 +1,237 @@
+// Turns generated SVG markup into code for front-end projects: a React component, a Vue
+// single-file component, a CSS data URI or an ES module. Like optimizeSvg, it reads the flat,
+// double-quoted markup that generateSvg emits rather than arbitrary SVG.
+
+export type CodeTarget = 'svg' | 'react' | 'vue' | 'css' | 'module';
+
+export const CODE_TARGET_LABELS: Record<CodeTarget, string> = {
+  svg: 'SVG',
+  react: 'React',
+  vue: 'Vue',
+  css: 'CSS',
+  module: 'ES module',
+};
+
+export type CodeOptions = {
+  // Replace every fill and stroke color with currentColor, so the icon takes the text color.
+  // Applies to the React and Vue components.
+  currentColor?: boolean;
+};
+
+type Tag = { type: 'open' | 'close' | 'self'; name: string; attributes: [string, string][] };
+type Node = Tag | { type: 'text'; text: string };
+
+const COLOR_ATTRIBUTES = new Set(['fill', 'stroke', 'color', 'stop-color']);
+
+// Attributes React spells differently; everything else hyphenated becomes camelCase.
+const REACT_ATTRIBUTE_NAMES: Record<string, string> = {
+  class: 'className',
+  'xlink:href': 'xlinkHref',
+  'xml:space': 'xmlSpace',
+  'xmlns:xlink': 'xmlnsXlink',
+};
+
+/**
+ * Splits markup into tags and the text between them. Comments, the XML declaration and
+ * whitespace-only text are dropped.
+ */
+const parseMarkup = (svgCode: string): Node[] => {
+  const nodes: Node[] = [];
+  const tagPattern = /<(\/?)([\w:-]+)([^>]*?)(\/?)>|<!--[\s\S]*?-->|<\?[\s\S]*?\?>/g;
+  const attributePattern = /([\w:-]+)="([^"]*)"/g;
+  let lastIndex = 0;
+  for (const match of svgCode.matchAll(tagPattern)) {
+    const text = svgCode.slice(lastIndex, match.index);
+    if (text.trim()) nodes.push({ type: 'text', text });
+    lastIndex = match.index + match[0].length;
+    if (!match[2]) continue;
+    const attributes = [...match[3].matchAll(attributePattern)].map(([, name, value]) => [name, value] as [string, string]);
+    nodes.push({ type: match[1] ? 'close' : match[4] ? 'self' : 'open', name: match[2], attributes });
+  }
+  const rest = svgCode.slice(lastIndex);
+  if (rest.trim()) nodes.push({ type: 'text', text: rest });
+  return nodes;
+};
+
+const withCurrentColor = (attributes: [string, string][]): [string, string][] =>
+  attributes.map(([name, value]) => COLOR_ATTRIBUTES.has(name) && value !== 'none' && !value.startsWith('url(')
+    ? [name, 'currentColor']
+    : [name, value]);
+
+/**
+ * Splits the parsed markup into the root <svg> attributes and its content.
+ */
+const splitRoot = (svgCode: string, options: CodeOptions): { root: [string, string][]; children: Node[] } => {
+  const nodes = parseMarkup(svgCode).map((node): Node => node.type !== 'text' && options.currentColor
+    ? { ...node, attributes: withCurrentColor(node.attributes) }
+    : node);
+  const rootIndex = nodes.findIndex(node => node.type !== 'text' && node.name === 'svg');
+  if (rootIndex === -1) return { root: [], children: nodes };
+  const root = nodes[rootIndex] as Tag;
+  const closeIndex = nodes.map(node => node.type === 'close' && node.name === 'svg').lastIndexOf(true);
+  const children = root.type === 'self' ? [] : nodes.slice(rootIndex + 1, closeIndex === -1 ? undefined : closeIndex);
+  // Sizing comes from the component props instead.
+  return { root: root.attributes.filter(([name]) => name !== 'width' && name !== 'height'), children };
+};
+
+/**
+ * Writes nodes back as indented markup, converting attributes and text as needed.
+ */
+const writeNodes = (
+  nodes: Node[],
+  indent: string,
+  attribute: (name: string, value: string) => string,
+  text: (value: string) => string,
+): string[] => {
+  const lines: string[] = [];
+  let depth = 0;
+  for (const node of nodes) {
+    if (node.type === 'close') depth = Math.max(0, depth - 1);
+    const pad = indent + '  '.repeat(depth);
+    if (node.type === 'text') {
+      lines.push(`${pad}${text(node.text.trim())}`);
+      continue;
+    }
+    if (node.type === 'close') {
+      lines.push(`${pad}</${node.name}>`);
+      continue;
+    }
+    const attributes = node.attributes.map(([name, value]) => ` ${attribute(name, value)}`).join('');
+    lines.push(`${pad}<${node.name}${attributes}${node.type === 'self' ? ' />' : '>'}`);
+    if (node.type === 'open') depth++;
+  }
+  return lines;
+};
+
+const toCamelCase = (name: string): string => name.replace(/[-:]([a-z])/g, (_, letter: string) => letter.toUpperCase());
+
+const toReactAttribute = (name: string, value: string): string => {
+  if (name === 'style') {
+    // React takes inline styles as an object keyed by camelCase property names.
+    const style = Object.fromEntries(value.split(';')
+      .map(declaration => declaration.split(':').map(part => part.trim()))
+      .filter(([property, styleValue]) => property && styleValue)
+      .map(([property, styleValue]) => [toCamelCase(property), styleValue]));
+    return `style={${JSON.stringify(style)}}`;
+  }
+  const reactName = REACT_ATTRIBUTE_NAMES[name] ?? (name.startsWith('aria-') || name.startsWith('data-') ? name : toCamelCase(name));
+  return `${reactName}="${value}"`;
+};
+
+/**
+ * Writes a typed React component with size, className and title props.
+ */
+const toReactComponent = (svgCode: string, options: CodeOptions): string => {
+  const { root, children } = splitRoot(svgCode, options);
+  // Braces and angle brackets would end a JSX text run, so text goes in as a string expression.
+  const body = writeNodes(children, '    ', toReactAttribute, value => `{${JSON.stringify(value)}}`);
+  return [
+    `import * as React from 'react';`,
+    '',
+    'export interface ConvertedIconProps extends Omit<React.SVGProps<SVGSVGElement>, \'width\' | \'height\'> {',
+    '  size?: number | string;',
+    '  className?: string;',
+    '  // Accessible name; without one the icon is hidden from assistive technology.',
+    '  title?: string;',
+    '}',
+    '',
+    `export const ConvertedIcon = ({ size = '1em', className, title, ...props }: ConvertedIconProps) => (`,
+    '  <svg',
+    ...root.map(([name, value]) => `    ${toReactAttribute(name, value)}`),
+    '    width={size}',
+    '    height={size}',
+    '    className={className}',
+    `    role={title ? 'img' : undefined}`,
+    '    aria-hidden={title ? undefined : true}',
+    '    {...props}',
+    '  >',
+    '    {title && <title>{title}</title>}',
+    ...body,
+    '  </svg>',
+    ');',
+    '',
+    'export default ConvertedIcon;',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Writes a Vue 3 single-file component with size and title props. Classes fall through to the
+ * root <svg> as usual.
+ */
+const toVueComponent = (svgCode: string, options: CodeOptions): string => {
+  const { root, children } = splitRoot(svgCode, options);
+  const escapeText = (value: string) => value.replace(/[{}<>&]/g, char => `&#${char.charCodeAt(0)};`);
+  return [
+    '<script setup lang="ts">',
+    `withDefaults(defineProps<{ size?: number | string; title?: string }>(), { size: '1em' });`,
+    '</script>',
+    '',
+    '<template>',
+    '  <svg',
+    ...root.map(([name, value]) => `    ${name}="${value}"`),
+    '    :width="size"',
+    '    :height="size"',
+    `    :role="title ? 'img' : undefined"`,
+    `    :aria-hidden="title ? undefined : 'true'"`,
+    '  >',
+    '    <title v-if="title">{{ title }}</title>',
+    ...writeNodes(children, '    ', (name, value) => `${name}="${value}"`, escapeText),
+    '  </svg>',
+    '</template>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Encodes markup for a CSS url(): percent-encoding only where needed, and single quotes inside
+ * so the value can sit in double quotes. This stays shorter than base64 and gzips better.
+ */
+export const svgToDataUri = (svgCode: string): string => {
+  const markup = svgCode.trim().replace(/\s+/g, ' ').replace(/> </g, '><');
+  const quoted = markup.includes("'") ? markup : markup.replace(/"/g, "'");
+  const encoded = quoted.replace(/[\u{0}-\u{1f}"%#<>?[\\\]^`{|}\u{7f}-\u{10ffff}]/gu, char => encodeURIComponent(char));
+  return `data:image/svg+xml,${encoded}`;
+};
+
+const toCssRule = (svgCode: string): string => [
+  '.converted-icon {',
+  `  background-image: url("${svgToDataUri(svgCode)}");`,
+  '  background-repeat: no-repeat;',
+  '  background-position: center;',
+  '  background-size: contain;',
+  '}',
+  '',
+].join('\n');
+
+const toEsModule = (svgCode: string): string => {
+  // Inside a template literal only backslashes, backticks and `${` need escaping.
+  const escaped = svgCode.replace(/\\/g, '\\\\').replace(/`/g, '\\`').replace(/\$\{/g, '\\${');
+  return [
+    `export const svg = \`${escaped}\`;`,
+    '',
+    'export default svg;',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Generates ready-to-paste code for a target.
+ * @param svgCode The generated SVG markup.
+ * @param target The kind of code to write; 'svg' returns the markup unchanged.
+ * @param options Options for the component targets.
+ */
+export const generateCode = (svgCode: string, target: CodeTarget, options: CodeOptions = {}): string => {
+  switch (target) {
+    case 'svg':
+      return svgCode;
+    case 'react':
+      return toReactComponent(svgCode, options);
+    case 'vue':
+      return toVueComponent(svgCode, options);
+    case 'css':
+      return toCssRule(svgCode);
+    case 'module':
+      return toEsModule(svgCode);
+  }
+};
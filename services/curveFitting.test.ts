@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { generateSvg } from './vectorizerService';
+import type { GenerateSvgOptions, TracedData } from './vectorizerService';
+
+type Point = { x: number; y: number };
+
+const CURVES: GenerateSvgOptions = {
+  simplification: 2,
+  strokeEnabled: false,
+  strokeColor: '#000000',
+  strokeWidth: 1,
+  pathMode: 'curves',
+};
+
+/**
+ * A square contour on the pixel grid with each corner cut off by `cut` diagonal steps, the way
+ * the tracer returns a square after smoothing. Clockwise on screen unless reversed.
+ */
+const cutSquare = (from: number, to: number, cut: number, reversed = false): Point[] => {
+  const corners = [{ x: from, y: from }, { x: to, y: from }, { x: to, y: to }, { x: from, y: to }];
+  const points: Point[] = [];
+  corners.forEach((corner, i) => {
+    const next = corners[(i + 1) % 4];
+    const dx = Math.sign(next.x - corner.x);
+    const dy = Math.sign(next.y - corner.y);
+    const length = Math.abs(next.x - corner.x) + Math.abs(next.y - corner.y);
+    for (let step = cut; step < length - cut; step++) {
+      points.push({ x: corner.x + dx * step, y: corner.y + dy * step });
+    }
+    // Diagonal steps across the following corner.
+    const after = corners[(i + 2) % 4];
+    const ex = Math.sign(after.x - next.x);
+    const ey = Math.sign(after.y - next.y);
+    for (let step = 0; step < cut; step++) {
+      points.push({ x: next.x - dx * (cut - step) + ex * step, y: next.y - dy * (cut - step) + ey * step });
+    }
+  });
+  return reversed ? points.reverse() : points;
+};
+
+const traceOf = (contours: Point[][]): TracedData => ({
+  width: 60,
+  height: 60,
+  shapes: [{
+    color: { r: 0, g: 0, b: 0, a: 255 },
+    contours,
+    hierarchy: contours.map((_, i) => ({
+      parent: i === 0 ? null : 0,
+      children: i === 0 ? contours.slice(1).map((__, j) => j + 1) : [],
+      depth: i === 0 ? 0 : 1,
+      isHole: i > 0,
+      winding: i === 0 ? 'cw' : 'ccw',
+    })),
+    area: 1,
+  }],
+  smoothingRadius: 2,
+});
+
+const pathData = (svg: string): string => svg.match(/ d="([^"]*)"/)?.[1] ?? '';
+
+test('a smoothed square keeps its corners in curves mode, in either winding', () => {
+  for (const reversed of [false, true]) {
+    const d = pathData(generateSvg(traceOf([cutSquare(10, 49, 2, reversed)]), CURVES));
+    assert.doesNotMatch(d, /[CQ]/, d);
+  }
+});
+
+test('a square hole keeps its corners in curves mode', () => {
+  // Holes come back with wider cuts than outlines, and wound the other way.
+  for (const reversed of [false, true]) {
+    const d = pathData(generateSvg(traceOf([cutSquare(10, 49, 2), cutSquare(21, 38, 3, !reversed)]), CURVES));
+    assert.doesNotMatch(d, /[CQ]/, d);
+    assert.equal(d.match(/M/g)?.length, 2, d);
+  }
+});
@@ -0,0 +1,244 @@
+// Writes traced images as PDF, EPS and DXF. The writers work from TracedData and the SVG options
+// through buildDrawing, so each format shows the same geometry as the generated SVG.
+// One SVG user unit (one source pixel) becomes one point in PDF and EPS, and one drawing unit in DXF.
+
+import type { Color, DrawingItem, DrawingSubpath, GenerateSvgOptions, Point, TracedData } from './vectorizerCore';
+import { buildDrawing } from './vectorizerCore';
+
+export type ExportFormat = 'svg' | 'pdf' | 'eps' | 'dxf';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  svg: { label: 'SVG', extension: 'svg', mimeType: 'image/svg+xml' },
+  pdf: { label: 'PDF', extension: 'pdf', mimeType: 'application/pdf' },
+  eps: { label: 'EPS', extension: 'eps', mimeType: 'application/postscript' },
+  dxf: { label: 'DXF', extension: 'dxf', mimeType: 'application/dxf' },
+};
+
+// Two decimals are well below a pixel, and dropping trailing zeros keeps files small.
+const num = (n: number): string => String(Number(n.toFixed(2)));
+
+const parseHexColor = (hex: string): Color => {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16) || 0;
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255, a: 255 };
+};
+
+const rgb = (color: Color): string => [color.r, color.g, color.b].map(c => num(c / 255)).join(' ');
+
+const toHexName = (color: Color): string =>
+  [color.r, color.g, color.b].map(c => c.toString(16).padStart(2, '0')).join('').toUpperCase();
+
+/**
+ * Writes subpaths with PostScript-style operators; PDF and EPS differ only in the names.
+ */
+const writeSubpaths = (
+  subpaths: DrawingSubpath[],
+  ops: { move: string; line: string; curve: string; close: string },
+): string[] => subpaths.flatMap(subpath => [
+  `${num(subpath.start.x)} ${num(subpath.start.y)} ${ops.move}`,
+  ...subpath.segments.map(segment => segment.type === 'line'
+    ? `${num(segment.to.x)} ${num(segment.to.y)} ${ops.line}`
+    : `${num(segment.c1.x)} ${num(segment.c1.y)} ${num(segment.c2.x)} ${num(segment.c2.y)} ${num(segment.to.x)} ${num(segment.to.y)} ${ops.curve}`),
+  ...(subpath.closed ? [ops.close] : []),
+]);
+
+const PDF_OPS = { move: 'm', line: 'l', curve: 'c', close: 'h' };
+const EPS_OPS = { move: 'moveto', line: 'lineto', curve: 'curveto', close: 'closepath' };
+
+/**
+ * Writes a one-page vector PDF with fill colors and opacity.
+ * @param tracedData The traced shapes, with layer and node edits applied.
+ * @param options The SVG options; simplification, curves, primitives, holes and stroke all apply.
+ */
+export const exportPdf = (tracedData: TracedData, options: GenerateSvgOptions): string => {
+  const drawing = buildDrawing(tracedData, options);
+  const outline = drawing.outline;
+  // One graphics state per distinct (fill opacity, stroke opacity) pair.
+  const graphicsStates = new Map<string, string>();
+  const graphicsState = (fillAlpha: number, strokeAlpha: number): string => {
+    const key = `${num(fillAlpha)} ${num(strokeAlpha)}`;
+    if (!graphicsStates.has(key)) graphicsStates.set(key, `GS${graphicsStates.size}`);
+    return graphicsStates.get(key)!;
+  };
+
+  const content = [`1 0 0 -1 0 ${num(drawing.height)} cm`];
+  for (const item of drawing.items) {
+    const alpha = item.color.a / 255;
+    content.push('q');
+    if (item.paint.type === 'line') {
+      if (alpha < 1) content.push(`/${graphicsState(1, alpha)} gs`);
+      content.push(`${rgb(item.color)} RG`, `${num(item.paint.width)} w`, '1 J', '1 j');
+      content.push(...writeSubpaths(item.subpaths, PDF_OPS), 'S');
+    } else {
+      if (alpha < 1) content.push(`/${graphicsState(alpha, 1)} gs`);
+      content.push(`${rgb(item.color)} rg`);
+      if (outline) content.push(`${rgb(parseHexColor(outline.color))} RG`, `${num(outline.width)} w`);
+      const evenOdd = item.paint.rule === 'evenodd' ? '*' : '';
+      content.push(...writeSubpaths(item.subpaths, PDF_OPS), `${outline ? 'B' : 'f'}${evenOdd}`);
+    }
+    content.push('Q');
+  }
+  const stream = content.join('\n');
+
+  const stateObjects = [...graphicsStates.entries()].map(([key]) => {
+    const [fillAlpha, strokeAlpha] = key.split(' ');
+    return `<< /Type /ExtGState /ca ${fillAlpha} /CA ${strokeAlpha} >>`;
+  });
+  const stateResources = [...graphicsStates.values()].map((name, i) => `/${name} ${5 + i} 0 R`).join(' ');
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(drawing.width)} ${num(drawing.height)}] `
+      + `/Resources << /ExtGState << ${stateResources} >> >> /Contents 4 0 R >>`,
+    `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    ...stateObjects,
+  ];
+
+  // The file is plain ASCII, so string offsets are byte offsets.
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((object, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${object}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return pdf;
+};
+
+/**
+ * Writes a Level 2 EPS file. PostScript has no transparency, so colors are written fully opaque.
+ * @param tracedData The traced shapes, with layer and node edits applied.
+ * @param options The SVG options; simplification, curves, primitives, holes and stroke all apply.
+ */
+export const exportEps = (tracedData: TracedData, options: GenerateSvgOptions): string => {
+  const drawing = buildDrawing(tracedData, options);
+  const outline = drawing.outline;
+  const lines = [
+    '%!PS-Adobe-3.0 EPSF-3.0',
+    `%%BoundingBox: 0 0 ${Math.ceil(drawing.width)} ${Math.ceil(drawing.height)}`,
+    `%%HiResBoundingBox: 0 0 ${num(drawing.width)} ${num(drawing.height)}`,
+    '%%LanguageLevel: 2',
+    '%%Pages: 1',
+    '%%EndComments',
+    'gsave',
+    `0 ${num(drawing.height)} translate 1 -1 scale`,
+  ];
+  for (const item of drawing.items) {
+    lines.push('newpath', ...writeSubpaths(item.subpaths, EPS_OPS));
+    if (item.paint.type === 'line') {
+      lines.push(`${rgb(item.color)} setrgbcolor`, `${num(item.paint.width)} setlinewidth`, '1 setlinecap 1 setlinejoin stroke');
+      continue;
+    }
+    const fill = item.paint.rule === 'evenodd' ? 'eofill' : 'fill';
+    if (outline) {
+      lines.push(`gsave ${rgb(item.color)} setrgbcolor ${fill} grestore`);
+      lines.push(`${rgb(parseHexColor(outline.color))} setrgbcolor`, `${num(outline.width)} setlinewidth`, 'stroke');
+    } else {
+      lines.push(`${rgb(item.color)} setrgbcolor ${fill}`);
+    }
+  }
+  lines.push('grestore', 'showpage', '%%EOF', '');
+  return lines.join('\n');
+};
+
+// Brightness steps of the AutoCAD Color Index, and its six grays (250 to 255).
+const ACI_VALUES = [1, 0.65, 0.5, 0.3, 0.15];
+const ACI_GRAYS = [51, 80, 105, 130, 190, 255];
+
+/**
+ * Finds a close AutoCAD Color Index entry for layer colors; R12 files have no true color.
+ */
+const toAciColor = ({ r, g, b }: Color): number => {
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const saturation = max === 0 ? 0 : (max - min) / max;
+  if (saturation < 0.15) {
+    const gray = ACI_GRAYS.reduce((best, value, i) => Math.abs(value - max) < Math.abs(ACI_GRAYS[best] - max) ? i : best, 0);
+    return 250 + gray;
+  }
+  let hue = 0;
+  if (max === r) hue = ((g - b) / (max - min) + 6) % 6;
+  else if (max === g) hue = (b - r) / (max - min) + 2;
+  else hue = (r - g) / (max - min) + 4;
+  const hueStep = Math.round(hue * 4) % 24;
+  const value = max / 255;
+  const level = ACI_VALUES.reduce((best, step, i) => Math.abs(step - value) < Math.abs(ACI_VALUES[best] - value) ? i : best, 0);
+  return 10 + hueStep * 10 + level * 2 + (saturation < 0.75 ? 1 : 0);
+};
+
+/**
+ * Turns a subpath into polyline points, splitting curves into short straight pieces.
+ */
+const flattenSubpath = (subpath: DrawingSubpath): Point[] => {
+  const points = [subpath.start];
+  for (const segment of subpath.segments) {
+    const from = points[points.length - 1];
+    if (segment.type === 'line') {
+      points.push(segment.to);
+      continue;
+    }
+    const { c1, c2, to } = segment;
+    const length = Math.hypot(c1.x - from.x, c1.y - from.y) + Math.hypot(c2.x - c1.x, c2.y - c1.y) + Math.hypot(to.x - c2.x, to.y - c2.y);
+    const steps = Math.min(32, Math.max(2, Math.ceil(length / 4)));
+    for (let i = 1; i <= steps; i++) {
+      const t = i / steps;
+      const u = 1 - t;
+      points.push({
+        x: u * u * u * from.x + 3 * u * u * t * c1.x + 3 * u * t * t * c2.x + t * t * t * to.x,
+        y: u * u * u * from.y + 3 * u * u * t * c1.y + 3 * u * t * t * c2.y + t * t * t * to.y,
+      });
+    }
+  }
+  const last = points[points.length - 1];
+  if (subpath.closed && points.length > 1 && last.x === subpath.start.x && last.y === subpath.start.y) {
+    points.pop();
+  }
+  return points;
+};
+
+/**
+ * Writes an R12 DXF with one layer per color. Fills become closed polylines along their outlines
+ * and centerline strokes become open polylines; curves are split into straight pieces.
+ * @param tracedData The traced shapes, with layer and node edits applied.
+ * @param options The SVG options; simplification, curves, primitives and holes apply.
+ */
+export const exportDxf = (tracedData: TracedData, options: GenerateSvgOptions): string => {
+  const drawing = buildDrawing(tracedData, options);
+  const layerName = (item: DrawingItem) => `COLOR-${toHexName(item.color)}`;
+  const layers = new Map<string, Color>();
+  drawing.items.forEach(item => layers.set(layerName(item), item.color));
+
+  // DXF is a list of group code / value pairs, one per line; its y axis points up.
+  const pairs: (string | number)[] = [
+    0, 'SECTION', 2, 'HEADER',
+    9, '$ACADVER', 1, 'AC1009',
+    9, '$EXTMIN', 10, 0, 20, 0,
+    9, '$EXTMAX', 10, num(drawing.width), 20, num(drawing.height),
+    0, 'ENDSEC',
+    0, 'SECTION', 2, 'TABLES',
+    0, 'TABLE', 2, 'LTYPE', 70, 1,
+    0, 'LTYPE', 2, 'CONTINUOUS', 70, 0, 3, 'Solid line', 72, 65, 73, 0, 40, 0,
+    0, 'ENDTAB',
+    0, 'TABLE', 2, 'LAYER', 70, layers.size,
+  ];
+  for (const [name, color] of layers) {
+    pairs.push(0, 'LAYER', 2, name, 70, 0, 62, toAciColor(color), 6, 'CONTINUOUS');
+  }
+  pairs.push(0, 'ENDTAB', 0, 'ENDSEC', 0, 'SECTION', 2, 'ENTITIES');
+  for (const item of drawing.items) {
+    const layer = layerName(item);
+    for (const subpath of item.subpaths) {
+      const points = flattenSubpath(subpath);
+      if (points.length < 2) continue;
+      pairs.push(0, 'POLYLINE', 8, layer, 66, 1, 10, 0, 20, 0, 30, 0, 70, subpath.closed ? 1 : 0);
+      for (const p of points) {
+        pairs.push(0, 'VERTEX', 8, layer, 10, num(p.x), 20, num(drawing.height - p.y), 30, 0);
+      }
+      pairs.push(0, 'SEQEND', 8, layer);
+    }
+  }
+  pairs.push(0, 'ENDSEC', 0, 'EOF');
+  return `${pairs.join('\n')}\n`;
+};
@@ -0,0 +1,136 @@
+import type { Color, RasterImage } from './vectorizerCore';
+
+// How well one traced color covers the pixels of that color in the source.
+export type LayerFidelity = {
+  color: Color;
+  // Intersection over union of the pixels classified as this color in the source and in the
+  // rendered SVG, from 0 to 1.
+  iou: number;
+  sourcePixels: number;
+};
+
+export type FidelityReport = {
+  // Mean per-pixel color difference between source and rendering, from 0 (identical) to 1.
+  meanError: number;
+  // 100 minus the mean error in percent, for display.
+  score: number;
+  layers: LayerFidelity[];
+  // Per-pixel differences: transparent where the images match, yellow to red where they differ.
+  heatmap: RasterImage;
+};
+
+/**
+ * Labels every pixel with the index of the closest color (in RGB), or -1 where the pixel is
+ * mostly transparent.
+ */
+const classifyPixels = (image: RasterImage, colors: Color[]): Int32Array => {
+  const { data } = image;
+  const labels = new Int32Array(data.length / 4).fill(-1);
+  const cache = new Map<number, number>();
+  for (let p = 0; p < labels.length; p++) {
+    const i = p * 4;
+    if (data[i + 3] < 128 || colors.length === 0) continue;
+    const key = (data[i] << 16) | (data[i + 1] << 8) | data[i + 2];
+    let label = cache.get(key);
+    if (label === undefined) {
+      let best = Infinity;
+      label = 0;
+      colors.forEach((c, index) => {
+        const d = (c.r - data[i]) ** 2 + (c.g - data[i + 1]) ** 2 + (c.b - data[i + 2]) ** 2;
+        if (d < best) {
+          best = d;
+          label = index;
+        }
+      });
+      cache.set(key, label);
+    }
+    labels[p] = label;
+  }
+  return labels;
+};
+
+/**
+ * Compares a source raster with the SVG rendered back at the same size.
+ * @param source The image that was traced.
+ * @param rendered The SVG rasterized at the source's resolution.
+ * @param colors The traced layer colors to report coverage for.
+ * @returns The mean error, per-layer IoU and a difference heatmap.
+ */
+export const compareRasters = (source: RasterImage, rendered: RasterImage, colors: Color[]): FidelityReport => {
+  if (source.width !== rendered.width || source.height !== rendered.height) {
+    throw new Error('Images must have the same size to be compared.');
+  }
+  const { width, height } = source;
+  const pixelCount = width * height;
+  const heatmap = new Uint8ClampedArray(pixelCount * 4);
+  let totalError = 0;
+
+  for (let p = 0; p < pixelCount; p++) {
+    const i = p * 4;
+    // Premultiplied, so differences in fully transparent pixels do not count.
+    const sa = source.data[i + 3] / 255;
+    const ra = rendered.data[i + 3] / 255;
+    let sum = (source.data[i + 3] - rendered.data[i + 3]) ** 2;
+    for (let c = 0; c < 3; c++) {
+      sum += (source.data[i + c] * sa - rendered.data[i + c] * ra) ** 2;
+    }
+    const error = Math.sqrt(sum / 4) / 255;
+    totalError += error;
+
+    // Small differences are boosted so anti-aliasing noise stays faint but visible.
+    const intensity = Math.min(1, error * 4);
+    heatmap[i] = 255;
+    heatmap[i + 1] = Math.round(255 * (1 - intensity));
+    heatmap[i + 3] = Math.round(255 * intensity);
+  }
+
+  const sourceLabels = classifyPixels(source, colors);
+  const renderedLabels = classifyPixels(rendered, colors);
+  const layers = colors.map((color, index) => {
+    let intersection = 0;
+    let union = 0;
+    let sourcePixels = 0;
+    for (let p = 0; p < pixelCount; p++) {
+      const inSource = sourceLabels[p] === index;
+      const inRendered = renderedLabels[p] === index;
+      if (inSource) sourcePixels++;
+      if (inSource && inRendered) intersection++;
+      if (inSource || inRendered) union++;
+    }
+    return { color, iou: union > 0 ? intersection / union : 1, sourcePixels };
+  });
+
+  const meanError = pixelCount > 0 ? totalError / pixelCount : 0;
+  return {
+    meanError,
+    score: 100 * (1 - meanError),
+    layers,
+    heatmap: { width, height, data: heatmap },
+  };
+};
+
+/**
+ * Renders SVG markup to pixels at the given size.
+ */
+export const rasterizeSvg = (svgCode: string, width: number, height: number): Promise<ImageData> => {
+  return new Promise((resolve, reject) => {
+    // Without explicit dimensions browsers fall back to 300x150 before scaling.
+    const sized = /<svg[^>]*\swidth=/.test(svgCode)
+      ? svgCode
+      : svgCode.replace('<svg', `<svg width="${width}" height="${height}"`);
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = width;
+      canvas.height = height;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        return reject(new Error('Could not get canvas context.'));
+      }
+      ctx.drawImage(img, 0, 0, width, height);
+      resolve(ctx.getImageData(0, 0, width, height));
+    };
+    img.onerror = () => reject(new Error('Failed to render the SVG.'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sized)}`;
+  });
+};
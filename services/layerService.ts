@@ -0,0 +1,117 @@
+import type { Color, TracedData, TracedShape } from './vectorizerCore';
+import type { ContourEdit, EditableShape } from './pathEditService';
+import { applyShapeEdits } from './pathEditService';
+
+// An editable view of one traced color. Edits only touch this list; the traced contours are
+// never recomputed, so every change can be rendered straight through generateSvg.
+export type Layer = {
+  id: number;
+  color: Color;
+  // The traced shapes drawn with this layer's color. Usually one; merging layers keeps each
+  // source shape separate so overlapping contours do not cancel out under the even-odd rule.
+  shapes: TracedShape[];
+  visible: boolean;
+};
+
+/**
+ * Creates one layer per traced shape, in paint order (first layer is drawn at the bottom).
+ */
+export const createLayers = (tracedData: TracedData): Layer[] =>
+  tracedData.shapes.map((shape, index) => ({ id: index, color: shape.color, shapes: [shape], visible: true }));
+
+/**
+ * Tells whether the layers differ from the ones createLayers made: reordered, recolored, hidden,
+ * merged or deleted. A silhouette's layer in the silhouette color counts as unedited.
+ * @param silhouetteColor The color applySilhouetteColor last gave the layers.
+ */
+export const areLayersEdited = (tracedData: TracedData, layers: Layer[], silhouetteColor?: Color): boolean =>
+  layers.length !== tracedData.shapes.length
+  || layers.some((layer, index) => !layer.visible
+    || layer.shapes.length !== 1
+    || layer.shapes[0] !== tracedData.shapes[index]
+    || (layer.color !== tracedData.shapes[index].color && !(tracedData.silhouette && layer.color === silhouetteColor)));
+
+/**
+ * Fills the layers of a silhouette trace with the silhouette color. Layers recolored in the layer
+ * panel keep their color; other traces are returned unchanged.
+ * @param tracedData The traced data the layers were created from.
+ * @param layers The current layers.
+ * @param color The new silhouette color.
+ * @param previous The silhouette color the layers were given before, if any.
+ */
+export const applySilhouetteColor = (tracedData: TracedData, layers: Layer[], color: Color, previous?: Color): Layer[] => {
+  if (!tracedData.silhouette) return layers;
+  return layers.map(layer => layer.color === previous || layer.shapes.some(shape => shape.color === layer.color)
+    ? { ...layer, color }
+    : layer);
+};
+
+export const getLayerArea = (layer: Layer): number => layer.shapes.reduce((sum, shape) => sum + shape.area, 0);
+
+export const getLayerContourCount = (layer: Layer): number =>
+  layer.shapes.reduce((sum, shape) => sum + shape.contours.length + (shape.strokes?.length ?? 0), 0);
+
+/**
+ * Builds the traced data to render from the edited layers, dropping hidden ones.
+ * @param tracedData The traced data the layers were created from.
+ * @param layers The current layers.
+ * @param edits Node edits to apply on top (see pathEditService).
+ */
+export const layersToTracedData = (tracedData: TracedData, layers: Layer[], edits: ContourEdit[] = []): TracedData => ({
+  ...tracedData,
+  // The layer colors are what is drawn, including a silhouette's.
+  silhouette: false,
+  shapes: layers
+    .filter(layer => layer.visible)
+    .flatMap(layer => layer.shapes.map(shape => ({
+      ...applyShapeEdits(shape, tracedData.shapes.indexOf(shape), edits),
+      color: layer.color,
+    }))),
+});
+
+/**
+ * Lists the visible traced shapes in paint order, for picking lines to edit.
+ */
+export const getEditableShapes = (tracedData: TracedData, layers: Layer[]): EditableShape[] => layers
+  .filter(layer => layer.visible)
+  .flatMap(layer => layer.shapes.map(shape => ({ shape: tracedData.shapes.indexOf(shape), traced: shape })));
+
+export const setLayerVisibility = (layers: Layer[], id: number, visible: boolean): Layer[] =>
+  layers.map(layer => layer.id === id ? { ...layer, visible } : layer);
+
+export const recolorLayer = (layers: Layer[], id: number, color: Color): Layer[] =>
+  layers.map(layer => layer.id === id ? { ...layer, color } : layer);
+
+export const deleteLayer = (layers: Layer[], id: number): Layer[] => layers.filter(layer => layer.id !== id);
+
+/**
+ * Moves a layer to a new position in paint order.
+ * @param layers The current layers.
+ * @param id The layer to move.
+ * @param toIndex The index the layer should end up at.
+ */
+export const moveLayer = (layers: Layer[], id: number, toIndex: number): Layer[] => {
+  const fromIndex = layers.findIndex(layer => layer.id === id);
+  if (fromIndex === -1) return layers;
+  const result = [...layers];
+  const [moved] = result.splice(fromIndex, 1);
+  result.splice(Math.max(0, Math.min(toIndex, result.length)), 0, moved);
+  return result;
+};
+
+/**
+ * Merges one layer into another. The merged layer takes the target's color and position
+ * and is visible if either source was.
+ * @param layers The current layers.
+ * @param sourceId The layer that is absorbed.
+ * @param targetId The layer that receives the shapes.
+ */
+export const mergeLayers = (layers: Layer[], sourceId: number, targetId: number): Layer[] => {
+  const source = layers.find(layer => layer.id === sourceId);
+  if (!source || sourceId === targetId) return layers;
+  return layers
+    .filter(layer => layer.id !== sourceId)
+    .map(layer => layer.id === targetId
+      ? { ...layer, shapes: [...layer.shapes, ...source.shapes], visible: layer.visible || source.visible }
+      : layer);
+};
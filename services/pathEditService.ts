@@ -0,0 +1,168 @@
+import type { Path, Point, TracedShape } from './vectorizerCore';
+import { isPointInPolygon, simplifyPath } from './vectorizerCore';
+
+// Identifies one traced line. `shape` indexes the original TracedData.shapes, so edits survive
+// reordering, merging and hiding layers; `index` points into the shape's contours or strokes.
+export type ContourRef = { shape: number; kind: 'contour' | 'stroke'; index: number };
+
+// One undoable change: the line's complete node list afterwards, or null when it was deleted.
+export type ContourEdit = ContourRef & { points: Path | null };
+
+export type EditHistory = {
+  edits: ContourEdit[];
+  // Edits taken back by undo, most recent last.
+  undone: ContourEdit[];
+};
+
+// A visible shape as originally traced, paired with its index in the traced data.
+export type EditableShape = { shape: number; traced: TracedShape };
+
+export const EMPTY_EDIT_HISTORY: EditHistory = { edits: [], undone: [] };
+
+export const pushEdit = (history: EditHistory, edit: ContourEdit): EditHistory =>
+  ({ edits: [...history.edits, edit], undone: [] });
+
+export const undoEdit = (history: EditHistory): EditHistory => history.edits.length === 0
+  ? history
+  : { edits: history.edits.slice(0, -1), undone: [...history.undone, history.edits[history.edits.length - 1]] };
+
+export const redoEdit = (history: EditHistory): EditHistory => history.undone.length === 0
+  ? history
+  : { edits: [...history.edits, history.undone[history.undone.length - 1]], undone: history.undone.slice(0, -1) };
+
+const sameRef = (a: ContourRef, b: ContourRef) => a.shape === b.shape && a.kind === b.kind && a.index === b.index;
+
+/**
+ * Returns a line's nodes as they are drawn: the latest edit if there is one, otherwise the traced
+ * points. Null when the line was deleted.
+ */
+export const getEditedPath = (traced: TracedShape, ref: ContourRef, edits: ContourEdit[]): Path | null => {
+  for (let i = edits.length - 1; i >= 0; i--) {
+    if (sameRef(edits[i], ref)) return edits[i].points;
+  }
+  return (ref.kind === 'contour' ? traced.contours : traced.strokes ?? [])[ref.index] ?? null;
+};
+
+// Whether a contour is gone, either deleted itself or nested in a deleted contour.
+const isContourDeleted = (traced: TracedShape, shape: number, index: number, edits: ContourEdit[]): boolean => {
+  for (let i: number | null = index; i !== null; i = traced.hierarchy[i].parent) {
+    if (!getEditedPath(traced, { shape, kind: 'contour', index: i }, edits)) return true;
+  }
+  return false;
+};
+
+/**
+ * Returns the nodes to show as anchors for a line. Traced lines have a point on every pixel, so
+ * before their first edit they are reduced the same way generateSvg simplifies them; the first
+ * edit then stores that reduced node list, which later simplification leaves almost unchanged.
+ * @param traced The original traced shape.
+ * @param ref The line to edit.
+ * @param edits The current edits.
+ * @param simplification The current simplification level.
+ * @param pixelEdges Whether the data came from the pixel-grid tracer, which is never simplified.
+ */
+export const getEditableNodes = (
+  traced: TracedShape,
+  ref: ContourRef,
+  edits: ContourEdit[],
+  simplification: number,
+  pixelEdges: boolean,
+): Path | null => {
+  const path = getEditedPath(traced, ref, edits);
+  if (!path || pixelEdges || edits.some(edit => sameRef(edit, ref))) return path;
+  return simplifyPath(path, simplification);
+};
+
+/**
+ * Applies the edits for one shape. Deleting an outline also deletes the holes and islands nested
+ * in it. Edited shapes lose their shared-boundary loops and are drawn from their own contours.
+ * @param traced The original traced shape.
+ * @param shapeIndex The shape's index in the original traced data.
+ * @param edits All edits, in the order they were made.
+ */
+export const applyShapeEdits = (traced: TracedShape, shapeIndex: number, edits: ContourEdit[]): TracedShape => {
+  const own = edits.filter(edit => edit.shape === shapeIndex);
+  if (own.length === 0) return traced;
+
+  const contours = traced.contours.map((_, index) => getEditedPath(traced, { shape: shapeIndex, kind: 'contour', index }, own));
+
+  // Renumber the nesting tree around the removed contours.
+  const kept = contours.map((_, index) => index).filter(index => !isContourDeleted(traced, shapeIndex, index, own));
+  const newIndex = new Map(kept.map((index, position) => [index, position]));
+  const hierarchy = kept.map(index => {
+    const node = traced.hierarchy[index];
+    return {
+      ...node,
+      parent: node.parent === null ? null : newIndex.get(node.parent) ?? null,
+      children: node.children.filter(child => newIndex.has(child)).map(child => newIndex.get(child)!),
+    };
+  });
+
+  const strokes = traced.strokes
+    ?.map((_, index) => getEditedPath(traced, { shape: shapeIndex, kind: 'stroke', index }, own))
+    .filter((stroke): stroke is Path => stroke !== null);
+
+  return {
+    ...traced,
+    contours: kept.map(index => contours[index]!),
+    hierarchy,
+    loops: undefined,
+    ...(strokes ? { strokes } : {}),
+  };
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared));
+  return Math.hypot(p.x - (a.x + dx * t), p.y - (a.y + dy * t));
+};
+
+const polygonArea = (path: Path): number => {
+  let sum = 0;
+  for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+    sum += path[j].x * path[i].y - path[i].x * path[j].y;
+  }
+  return Math.abs(sum / 2);
+};
+
+/**
+ * Finds the line under a point, searching from the top shape down. Within a shape the smallest
+ * enclosing contour wins, so a click inside a hole selects the hole. A shape only counts as hit
+ * where it is actually filled; if no shape is, the top shape with any enclosing contour is used.
+ * References use the original contour and stroke indices, as edits do.
+ * @param shapes The drawn shapes, in paint order.
+ * @param point The point, in image coordinates.
+ * @param tolerance How far from a stroke's center line a point may be, beyond its half-width.
+ */
+export const findContourAt = (
+  shapes: EditableShape[],
+  edits: ContourEdit[],
+  point: Point,
+  tolerance: number,
+): ContourRef | null => {
+  let fallback: ContourRef | null = null;
+  for (let s = shapes.length - 1; s >= 0; s--) {
+    const { shape, traced } = shapes[s];
+    const reach = (traced.strokeWidth ?? 1) / 2 + tolerance;
+    const strokeIndex = (traced.strokes ?? []).findIndex((_, index) => {
+      const stroke = getEditedPath(traced, { shape, kind: 'stroke', index }, edits);
+      return stroke?.some((p, i) => i > 0 && distanceToSegment(point, stroke[i - 1], p) <= reach);
+    });
+    if (strokeIndex !== -1) return { shape, kind: 'stroke', index: strokeIndex };
+
+    const enclosing = traced.contours
+      .map((_, index) => ({ index, path: getEditedPath(traced, { shape, kind: 'contour', index }, edits) }))
+      .filter(({ index, path }) => path && !isContourDeleted(traced, shape, index, edits) && isPointInPolygon(point, path))
+      .map(({ index, path }) => ({ index, area: polygonArea(path!) }));
+    if (enclosing.length === 0) continue;
+    const smallest = enclosing.reduce((best, candidate) => candidate.area < best.area ? candidate : best);
+    const ref: ContourRef = { shape, kind: 'contour', index: smallest.index };
+    // An odd number of enclosing contours means the point is filled under either fill rule
+    // for the nested contours the tracer produces.
+    if (enclosing.length % 2 === 1) return ref;
+    fallback ??= ref;
+  }
+  return fallback;
+};
@@ -0,0 +1,39 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { classifyContour } from './vectorizerService';
+
+type Point = { x: number; y: number };
+
+// A circle outline rounded to the pixel grid.
+const disc = (cx: number, cy: number, r: number): Point[] => {
+  const points: Point[] = [];
+  for (let i = 0; i < 96; i++) {
+    const angle = (i / 96) * 2 * Math.PI;
+    const point = { x: Math.round(cx + r * Math.cos(angle)), y: Math.round(cy + r * Math.sin(angle)) };
+    const last = points[points.length - 1];
+    if (!last || last.x !== point.x || last.y !== point.y) points.push(point);
+  }
+  return points;
+};
+
+// A square whose corners were cut by one diagonal step, as smoothing at tolerance 1 leaves it.
+const smoothedSquare = (from: number, to: number): Point[] => {
+  const points: Point[] = [];
+  for (let x = from + 1; x < to; x++) points.push({ x, y: from });
+  for (let y = from + 1; y < to; y++) points.push({ x: to, y });
+  for (let x = to - 1; x > from; x--) points.push({ x, y: to });
+  for (let y = to - 1; y > from; y--) points.push({ x: from, y });
+  return points;
+};
+
+test('a smoothed square is a rect, not a circle', () => {
+  for (const size of [6, 9, 14, 19]) {
+    assert.equal(classifyContour(smoothedSquare(10, 10 + size), 1)?.type, 'rect', `size ${size}`);
+  }
+});
+
+test('a pixel-grid disc is still a circle', () => {
+  for (const r of [8, 12, 20]) {
+    assert.equal(classifyContour(disc(30, 30, r), 1)?.type, 'circle', `radius ${r}`);
+  }
+});
@@ -0,0 +1,143 @@
+// Renders generated SVG markup back to PNG or WebP at any size, and packs favicon and app icon
+// sets (PNG sizes, a multi-resolution .ico and a web manifest) into one ZIP.
+
+import { createZip } from './zipService';
+import type { ZipEntry } from './zipService';
+
+export type RasterFormat = 'png' | 'webp';
+
+export type RasterOptions = {
+  format: RasterFormat;
+  // CSS color painted behind the image, or null to keep it transparent.
+  background: string | null;
+};
+
+// Browsers refuse or silently fail on canvases much larger than this.
+export const MAX_RASTER_SIZE = 8192;
+
+const MIME_TYPES: Record<RasterFormat, string> = { png: 'image/png', webp: 'image/webp' };
+
+/**
+ * Reads the drawing size from the root viewBox (or width and height) of SVG markup.
+ */
+export const getSvgSize = (svgCode: string): { width: number; height: number } => {
+  const root = svgCode.match(/<svg[^>]*>/)?.[0] ?? '';
+  const viewBox = root.match(/viewBox="([^"]*)"/)?.[1].trim().split(/[\s,]+/).map(Number);
+  if (viewBox && viewBox.length === 4 && viewBox[2] > 0 && viewBox[3] > 0) {
+    return { width: viewBox[2], height: viewBox[3] };
+  }
+  const width = parseFloat(root.match(/\swidth="([^"]*)"/)?.[1] ?? '');
+  const height = parseFloat(root.match(/\sheight="([^"]*)"/)?.[1] ?? '');
+  return width > 0 && height > 0 ? { width, height } : { width: 300, height: 150 };
+};
+
+/**
+ * Renders SVG markup into a canvas of the given size, centred and scaled to fit.
+ * @param svgCode The SVG markup.
+ * @param width Output width in pixels.
+ * @param height Output height in pixels.
+ * @param options Image format and background.
+ * @returns The encoded image.
+ */
+export const renderSvgToBlob = (svgCode: string, width: number, height: number, options: RasterOptions): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    const outputWidth = Math.min(MAX_RASTER_SIZE, Math.max(1, Math.round(width)));
+    const outputHeight = Math.min(MAX_RASTER_SIZE, Math.max(1, Math.round(height)));
+    // Rendering at the output size keeps edges sharp instead of upscaling a small bitmap.
+    const sized = svgCode.replace(/<svg[^>]*>/, root => root
+      .replace(/\s(?:width|height)="[^"]*"/g, '')
+      .replace('<svg', `<svg width="${outputWidth}" height="${outputHeight}"`));
+    const img = new Image();
+    img.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = outputWidth;
+      canvas.height = outputHeight;
+      const ctx = canvas.getContext('2d');
+      if (!ctx) {
+        return reject(new Error('Could not get canvas context.'));
+      }
+      if (options.background) {
+        ctx.fillStyle = options.background;
+        ctx.fillRect(0, 0, outputWidth, outputHeight);
+      }
+      ctx.drawImage(img, 0, 0, outputWidth, outputHeight);
+      const mimeType = MIME_TYPES[options.format];
+      canvas.toBlob(blob => {
+        if (!blob) {
+          reject(new Error('Failed to encode the image.'));
+        } else if (blob.type !== mimeType) {
+          // Browsers without an encoder for the format fall back to PNG.
+          reject(new Error(`This browser cannot save ${options.format.toUpperCase()} images.`));
+        } else {
+          resolve(blob);
+        }
+      }, mimeType);
+    };
+    img.onerror = () => reject(new Error('Failed to render the SVG.'));
+    img.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sized)}`;
+  });
+};
+
+/**
+ * Packs PNG images into a Windows icon file. Each size keeps its PNG encoding, which every
+ * current browser and Windows since Vista reads.
+ * @param images Square PNGs, at most 256 pixels each.
+ */
+export const createIco = (images: { size: number; data: Uint8Array }[]): Uint8Array => {
+  const headerSize = 6 + images.length * 16;
+  const result = new Uint8Array(headerSize + images.reduce((sum, image) => sum + image.data.length, 0));
+  const view = new DataView(result.buffer);
+  view.setUint16(2, 1, true); // type: icon
+  view.setUint16(4, images.length, true);
+  let offset = headerSize;
+  images.forEach((image, i) => {
+    const entry = 6 + i * 16;
+    // A stored size of 0 means 256.
+    view.setUint8(entry, image.size >= 256 ? 0 : image.size);
+    view.setUint8(entry + 1, image.size >= 256 ? 0 : image.size);
+    view.setUint16(entry + 4, 1, true); // color planes
+    view.setUint16(entry + 6, 32, true); // bits per pixel
+    view.setUint32(entry + 8, image.data.length, true);
+    view.setUint32(entry + 12, offset, true);
+    result.set(image.data, offset);
+    offset += image.data.length;
+  });
+  return result;
+};
+
+// Common favicon and home screen icon sizes, with the file names browsers and platforms expect.
+const ICON_FILES: { size: number; name: string }[] = [
+  { size: 16, name: 'favicon-16x16.png' },
+  { size: 32, name: 'favicon-32x32.png' },
+  { size: 48, name: 'favicon-48x48.png' },
+  { size: 180, name: 'apple-touch-icon.png' },
+  { size: 192, name: 'android-chrome-192x192.png' },
+  { size: 512, name: 'android-chrome-512x512.png' },
+];
+const ICO_SIZES = [16, 32, 48];
+
+/**
+ * Renders the favicon and app icon set and packs it, with favicon.ico and site.webmanifest,
+ * into one ZIP.
+ * @param svgCode The SVG markup.
+ * @param background CSS color behind the icons, or null to keep them transparent.
+ */
+export const createIconBundle = async (svgCode: string, background: string | null): Promise<Blob> => {
+  const pngs: { size: number; name: string; data: Uint8Array }[] = [];
+  for (const { size, name } of ICON_FILES) {
+    const blob = await renderSvgToBlob(svgCode, size, size, { format: 'png', background });
+    pngs.push({ size, name, data: new Uint8Array(await blob.arrayBuffer()) });
+  }
+  const manifest = {
+    icons: pngs
+      .filter(png => png.size === 192 || png.size === 512)
+      .map(png => ({ src: `/${png.name}`, sizes: `${png.size}x${png.size}`, type: 'image/png' })),
+    ...(background ? { theme_color: background, background_color: background } : {}),
+  };
+  const entries: ZipEntry[] = [
+    ...pngs.map(({ name, data }) => ({ name, data })),
+    { name: 'favicon.ico', data: createIco(pngs.filter(png => ICO_SIZES.includes(png.size))) },
+    { name: 'site.webmanifest', data: `${JSON.stringify(manifest, null, 2)}\n` },
+  ];
+  return new Blob([createZip(entries)], { type: 'application/zip' });
+};
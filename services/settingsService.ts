@@ -0,0 +1,129 @@
+import type { GenerateSvgOptions, HoleMode, Point, TraceOptions, TracedData } from './vectorizerCore';
+import { DEFAULT_SVG_OPTIONS, DEFAULT_TRACE_OPTIONS } from './vectorizerCore';
+import type {
+  BackgroundDetectionSetting,
+  BackgroundRemovalMode,
+  BackgroundRemovalOptions,
+  PickedBackgroundColor,
+} from './backgroundRemoverService';
+import { DEFAULT_BACKGROUND_OPTIONS } from './backgroundRemoverService';
+import { DEFAULT_OPTIMIZE_OPTIONS, optimizeSvg } from './svgOptimizer';
+import type { Layer } from './layerService';
+import type { EditHistory } from './pathEditService';
+import type { UploadedImage } from '../types';
+
+// Every user-adjustable conversion setting, as one value that can be compared, undone and pinned.
+// Image-specific input (crop, background seeds and picked colors) is not included.
+export type ConversionSettings = {
+  trace: Required<TraceOptions>;
+  // The corner threshold has no control in the app and always keeps its default.
+  svg: Omit<Required<GenerateSvgOptions>, 'cornerThreshold'>;
+  optimize: { enabled: boolean; precision: number };
+  background: {
+    mode: BackgroundRemovalMode;
+    detection: BackgroundDetectionSetting;
+    tolerance: number;
+    feather: number;
+  };
+};
+
+const { cornerThreshold: _cornerThreshold, ...DEFAULT_APP_SVG_OPTIONS } = DEFAULT_SVG_OPTIONS;
+
+export const DEFAULT_CONVERSION_SETTINGS: ConversionSettings = {
+  trace: DEFAULT_TRACE_OPTIONS,
+  svg: DEFAULT_APP_SVG_OPTIONS,
+  optimize: { enabled: true, precision: DEFAULT_OPTIMIZE_OPTIONS.precision },
+  background: {
+    mode: DEFAULT_BACKGROUND_OPTIONS.mode,
+    detection: DEFAULT_BACKGROUND_OPTIONS.model,
+    tolerance: DEFAULT_BACKGROUND_OPTIONS.tolerance,
+    feather: DEFAULT_BACKGROUND_OPTIONS.feather,
+  },
+};
+
+/**
+ * Builds background removal options from the settings and the points picked on one image.
+ */
+export const getBackgroundRemovalOptions = (
+  background: ConversionSettings['background'],
+  seeds: Point[] = [],
+  pickedColors: PickedBackgroundColor[] = [],
+): BackgroundRemovalOptions => ({
+  mode: background.mode,
+  detection: background.detection === 'corner' ? 'corner' : 'border',
+  model: background.detection === 'corner' ? undefined : background.detection,
+  tolerance: background.tolerance,
+  seeds,
+  feather: background.feather,
+  pickedColors,
+});
+
+/**
+ * Runs the output optimizer over generated markup if the settings enable it.
+ */
+export const applyOutputOptimizer = (svgCode: string, optimize: ConversionSettings['optimize'], holeMode: HoleMode): string =>
+  optimize.enabled
+    // Merging paths would undo the one-path-per-component output.
+    ? optimizeSvg(svgCode, { precision: optimize.precision, mergePaths: holeMode !== 'components' })
+    : svgCode;
+
+// Undo stack of settings. `present` is the last recorded state; the UI may be ahead of it while
+// a slider is still moving.
+export type SettingsHistory = {
+  past: ConversionSettings[];
+  present: ConversionSettings;
+  future: ConversionSettings[];
+};
+
+// A pinned result. It keeps the trace it was rendered from, so switching to it is instant.
+export type Snapshot = {
+  id: number;
+  name: string;
+  settings: ConversionSettings;
+  svgCode: string;
+  image: UploadedImage;
+  tracedData: TracedData;
+  layers: Layer[];
+  editHistory: EditHistory;
+};
+
+const MAX_HISTORY = 100;
+
+// Structural equality for plain data (settings hold only primitives and nested objects).
+const isEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length
+    && keys.every(key => isEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+};
+
+// Compares settings, or any group of them, by value.
+export const areSettingsEqual = <T extends object>(a: T, b: T): boolean => isEqual(a, b);
+
+export const createSettingsHistory = (settings: ConversionSettings): SettingsHistory =>
+  ({ past: [], present: settings, future: [] });
+
+/**
+ * Records a new settings state, dropping the redo stack. Unchanged settings are ignored.
+ */
+export const recordSettings = (history: SettingsHistory, settings: ConversionSettings): SettingsHistory =>
+  areSettingsEqual(history.present, settings)
+    ? history
+    : { past: [...history.past, history.present].slice(-MAX_HISTORY), present: settings, future: [] };
+
+export const undoSettings = (history: SettingsHistory): SettingsHistory => history.past.length === 0
+  ? history
+  : {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+
+export const redoSettings = (history: SettingsHistory): SettingsHistory => history.future.length === 0
+  ? history
+  : {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
@@ -0,0 +1,322 @@
+// Size optimizer for the SVG markup produced by generateSvg. Like the vectorizer core it is
+// plain string processing, so the web app and the CLI share it.
+
+export type SvgOptimizeOptions = {
+  // Number of decimal places kept in coordinates and numeric attributes.
+  precision?: number;
+  // Write each path command in relative or absolute form, whichever is shorter.
+  relativeCommands?: boolean;
+  // Use H/V for horizontal and vertical lines.
+  shorthands?: boolean;
+  // Drop attributes that repeat the SVG default, such as fill-opacity="1.00".
+  stripDefaults?: boolean;
+  // Combine consecutive paths that share every style attribute.
+  mergePaths?: boolean;
+};
+
+export const DEFAULT_OPTIMIZE_OPTIONS: Required<SvgOptimizeOptions> = {
+  precision: 1,
+  relativeCommands: true,
+  shorthands: true,
+  stripDefaults: true,
+  mergePaths: true,
+};
+
+type Vec = { x: number; y: number };
+
+// A path command in absolute form. H and V are stored as L so every segment ends at a point.
+type Segment =
+  | { type: 'M' | 'L' | 'T'; points: [Vec] }
+  | { type: 'Q' | 'S'; points: [Vec, Vec] }
+  | { type: 'C'; points: [Vec, Vec, Vec] }
+  | { type: 'Z' };
+
+const POINT_COUNTS: Record<string, number> = { M: 1, L: 1, T: 1, Q: 2, S: 2, C: 3 };
+
+// Attributes whose value is a single number that can be rounded to the requested precision.
+const NUMERIC_ATTRIBUTES = new Set(['cx', 'cy', 'r', 'rx', 'ry', 'x', 'y', 'width', 'height', 'x1', 'y1', 'x2', 'y2', 'stroke-width']);
+
+const DEFAULT_ATTRIBUTE_VALUES: Record<string, number> = { 'fill-opacity': 1, 'stroke-opacity': 1, opacity: 1 };
+
+/**
+ * Formats a number with at most `precision` decimals and no redundant characters
+ * ("12.0" -> "12", "0.5" -> ".5", "-0" -> "0").
+ */
+const formatNumber = (value: number, precision: number): string => {
+  let text = value.toFixed(precision);
+  if (text.includes('.')) {
+    text = text.replace(/0+$/, '').replace(/\.$/, '');
+  }
+  if (text === '-0') return '0';
+  return text.replace(/^(-?)0\./, '$1.');
+};
+
+/**
+ * Parses path data into absolute segments, or returns null for commands the optimizer
+ * does not rewrite (arcs).
+ */
+const parsePathData = (d: string): Segment[] | null => {
+  const tokens = d.match(/[a-zA-Z]|[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? [];
+  const segments: Segment[] = [];
+  let current: Vec = { x: 0, y: 0 };
+  let subpathStart: Vec = { x: 0, y: 0 };
+  let command = '';
+  let i = 0;
+
+  const readNumber = () => {
+    const value = Number(tokens[i++]);
+    if (!Number.isFinite(value)) throw new Error('Malformed path data.');
+    return value;
+  };
+
+  try {
+    while (i < tokens.length) {
+      if (/[a-zA-Z]/.test(tokens[i])) {
+        command = tokens[i++];
+      } else if (!command) {
+        return null;
+      }
+      const upper = command.toUpperCase();
+      const relative = command !== upper;
+
+      if (upper === 'Z') {
+        segments.push({ type: 'Z' });
+        current = subpathStart;
+        // A number after Z is not valid SVG; bail out instead of looping forever.
+        if (i < tokens.length && !/[a-zA-Z]/.test(tokens[i])) return null;
+        continue;
+      }
+      if (upper === 'H' || upper === 'V') {
+        const value = readNumber();
+        current = upper === 'H'
+          ? { x: relative ? current.x + value : value, y: current.y }
+          : { x: current.x, y: relative ? current.y + value : value };
+        segments.push({ type: 'L', points: [current] });
+        continue;
+      }
+      const count = POINT_COUNTS[upper];
+      if (!count) return null;
+
+      const points: Vec[] = [];
+      for (let p = 0; p < count; p++) {
+        const x = readNumber();
+        const y = readNumber();
+        points.push(relative ? { x: current.x + x, y: current.y + y } : { x, y });
+      }
+      segments.push({ type: upper, points } as Segment);
+      current = points[points.length - 1];
+      if (upper === 'M') {
+        subpathStart = current;
+        // Extra coordinate pairs after a moveto are implicit linetos.
+        command = relative ? 'l' : 'L';
+      }
+    }
+  } catch {
+    return null;
+  }
+  return segments;
+};
+
+/**
+ * Serializes absolute segments as compact path data.
+ */
+const serializePathData = (segments: Segment[], options: Required<SvgOptimizeOptions>): string => {
+  const { precision, relativeCommands, shorthands } = options;
+  const factor = 10 ** precision;
+  const round = (v: number) => Math.round(v * factor) / factor;
+  const fmt = (v: number) => formatNumber(v, precision);
+
+  // Joins numbers with the fewest separators: a minus sign, or a leading dot after a
+  // number that already has one, starts a new number on its own.
+  const joinNumbers = (numbers: string[], previous: string | null): string => {
+    let out = '';
+    let last = previous;
+    for (const n of numbers) {
+      const needsSpace = last !== null && !(n.startsWith('-') || (n.startsWith('.') && last.includes('.')));
+      out += (needsSpace ? ' ' : '') + n;
+      last = n;
+    }
+    return out;
+  };
+
+  let d = '';
+  let lastCommand = '';
+  let lastNumber: string | null = null;
+  let current: Vec = { x: 0, y: 0 };
+  let subpathStart: Vec = { x: 0, y: 0 };
+
+  const emit = (command: string, numbers: string[]) => {
+    // A repeated command letter can be left out, except after a moveto where it would mean lineto.
+    const implicit = command === lastCommand && command.toUpperCase() !== 'M' && numbers.length > 0;
+    if (implicit) {
+      d += joinNumbers(numbers, lastNumber);
+    } else {
+      d += command + joinNumbers(numbers, null);
+    }
+    lastCommand = command;
+    lastNumber = numbers.length > 0 ? numbers[numbers.length - 1] : null;
+  };
+
+  for (const segment of segments) {
+    if (segment.type === 'Z') {
+      emit('Z', []);
+      current = subpathStart;
+      continue;
+    }
+    const points = segment.points.map(p => ({ x: round(p.x), y: round(p.y) }));
+    const end = points[points.length - 1];
+    let absolute: [string, string[]];
+    let relative: [string, string[]];
+
+    if (segment.type === 'L' && shorthands && end.y === current.y && end.x !== current.x) {
+      absolute = ['H', [fmt(end.x)]];
+      relative = ['h', [fmt(round(end.x - current.x))]];
+    } else if (segment.type === 'L' && shorthands && end.x === current.x && end.y !== current.y) {
+      absolute = ['V', [fmt(end.y)]];
+      relative = ['v', [fmt(round(end.y - current.y))]];
+    } else {
+      absolute = [segment.type, points.flatMap(p => [fmt(p.x), fmt(p.y)])];
+      relative = [
+        segment.type.toLowerCase(),
+        points.flatMap(p => [fmt(round(p.x - current.x)), fmt(round(p.y - current.y))]),
+      ];
+    }
+
+    let choice = absolute;
+    if (relativeCommands) {
+      const absoluteLength = joinNumbers(absolute[1], null).length;
+      const relativeLength = joinNumbers(relative[1], null).length;
+      // On a tie keep the previous case so the command letter can be omitted.
+      if (relativeLength < absoluteLength || (relativeLength === absoluteLength && relative[0] === lastCommand)) {
+        choice = relative;
+      }
+    }
+    emit(choice[0], choice[1]);
+
+    current = end;
+    if (segment.type === 'M') subpathStart = end;
+  }
+  return d;
+};
+
+/**
+ * Splits path data into its subpaths, each written as standalone absolute path data along
+ * with its number of nodes (segment end points).
+ * @param d The path data to split.
+ * @returns The subpaths, or null for path data the parser does not handle (arcs).
+ */
+export const splitPathData = (d: string): { d: string; nodes: number }[] | null => {
+  const segments = parsePathData(d);
+  if (!segments) return null;
+  const settings = { ...DEFAULT_OPTIMIZE_OPTIONS, precision: 3, relativeCommands: false, shorthands: false };
+  const subpaths: Segment[][] = [];
+  for (const segment of segments) {
+    if (segment.type === 'M' || subpaths.length === 0) subpaths.push([]);
+    subpaths[subpaths.length - 1].push(segment);
+  }
+  return subpaths.map(subpath => ({
+    d: serializePathData(subpath, settings),
+    nodes: subpath.filter(segment => segment.type !== 'Z').length,
+  }));
+};
+
+/**
+ * Computes the bounding box of a path, including its control points.
+ */
+const getBounds = (segments: Segment[]) => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const segment of segments) {
+    if (segment.type === 'Z') continue;
+    for (const p of segment.points) {
+      minX = Math.min(minX, p.x);
+      minY = Math.min(minY, p.y);
+      maxX = Math.max(maxX, p.x);
+      maxY = Math.max(maxY, p.y);
+    }
+  }
+  return { minX, minY, maxX, maxY };
+};
+
+type Bounds = ReturnType<typeof getBounds>;
+
+const boundsOverlap = (a: Bounds, b: Bounds) =>
+  a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+
+type SvgElement = {
+  name: string;
+  attributes: [string, string][];
+  // Parsed path data, for <path> elements that can be rewritten.
+  segments: Segment[] | null;
+};
+
+/**
+ * Rewrites the attributes of a single element: rounds numbers and drops defaults.
+ */
+const optimizeAttributes = (attributes: [string, string][], options: Required<SvgOptimizeOptions>): [string, string][] => {
+  const { precision, stripDefaults } = options;
+  const result: [string, string][] = [];
+  for (const [name, value] of attributes) {
+    const numeric = Number(value);
+    if (stripDefaults && name in DEFAULT_ATTRIBUTE_VALUES && value.trim() !== '' && numeric === DEFAULT_ATTRIBUTE_VALUES[name]) {
+      continue;
+    }
+    if (NUMERIC_ATTRIBUTES.has(name) && value.trim() !== '' && Number.isFinite(numeric)) {
+      result.push([name, formatNumber(numeric, precision)]);
+    } else if (name === 'points' || name === 'transform') {
+      result.push([name, value.replace(/-?(?:\d+\.?\d*|\.\d+)/g, n => formatNumber(Number(n), precision))]);
+    } else {
+      result.push([name, value]);
+    }
+  }
+  return result;
+};
+
+/**
+ * Shrinks SVG markup without changing how it renders. Only the flat element structure that
+ * generateSvg emits is rewritten; anything else between elements is kept as-is.
+ * @param svg The SVG markup to optimize.
+ * @param options Precision and which optimizations to apply.
+ * @returns The optimized markup.
+ */
+export const optimizeSvg = (svg: string, options: SvgOptimizeOptions = {}): string => {
+  const merged = { ...DEFAULT_OPTIMIZE_OPTIONS, ...options };
+  // toFixed only accepts 0-100 digits; anything past a few decimals is noise for pixel data anyway.
+  const settings = { ...merged, precision: Math.min(Math.max(Math.round(merged.precision), 0), 6) };
+  const elementPattern = /<(path|circle|ellipse|rect|line|polygon)\s([^>]*?)\/>/g;
+  const attributePattern = /([\w:-]+)="([^"]*)"/g;
+
+  // Split the markup into self-closing drawing elements and the text between them.
+  const parts: (SvgElement | string)[] = [];
+  let lastIndex = 0;
+  for (const match of svg.matchAll(elementPattern)) {
+    if (match.index > lastIndex) parts.push(svg.slice(lastIndex, match.index));
+    const attributes = [...match[2].matchAll(attributePattern)].map(([, name, value]) => [name, value] as [string, string]);
+    const d = attributes.find(([name]) => name === 'd');
+    parts.push({ name: match[1], attributes, segments: match[1] === 'path' && d ? parsePathData(d[1]) : null });
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < svg.length) parts.push(svg.slice(lastIndex));
+
+  if (settings.mergePaths) {
+    // Only paths that are neighbours in paint order and do not overlap are merged, so neither
+    // stacking nor the even-odd fill rule can change the result.
+    const styleKey = (element: SvgElement) =>
+      element.attributes.filter(([name]) => name !== 'd').map(([name, value]) => `${name}=${value}`).sort().join(' ');
+    for (let i = parts.length - 1; i > 0; i--) {
+      const previous = parts[i - 1];
+      const element = parts[i];
+      if (typeof previous === 'string' || typeof element === 'string') continue;
+      if (!previous.segments || !element.segments || styleKey(previous) !== styleKey(element)) continue;
+      if (boundsOverlap(getBounds(previous.segments), getBounds(element.segments))) continue;
+      previous.segments = [...previous.segments, ...element.segments];
+      parts.splice(i, 1);
+    }
+  }
+
+  return parts.map(part => {
+    if (typeof part === 'string') return part;
+    const attributes = optimizeAttributes(part.attributes, settings)
+      .map(([name, value]) => name === 'd' && part.segments ? [name, serializePathData(part.segments, settings)] : [name, value]);
+    return `<${part.name} ${attributes.map(([name, value]) => `${name}="${value}"`).join(' ')}/>`;
+  }).join('');
+};
@@ -0,0 +1,37 @@
+// Makes SVG markup safe to insert into the page. The app only renders its own generated
+// markup inline, but the same path also has to hold for anything a user pastes or imports.
+
+// Elements that can run script, embed other documents, or (for <style>) restyle the whole
+// page once the SVG is inline.
+const BLOCKED_ELEMENTS = ['script', 'foreignObject', 'iframe', 'object', 'embed', 'style'];
+
+/**
+ * Parses SVG markup and strips scripts, event handler attributes, external references and
+ * style sheets.
+ * @param svgCode The markup to sanitize.
+ * @returns An `<svg>` element owned by the current document, or null if the markup is not valid SVG.
+ */
+export const sanitizeSvg = (svgCode: string): SVGSVGElement | null => {
+  const doc = new DOMParser().parseFromString(svgCode, 'image/svg+xml');
+  const root = doc.documentElement;
+  if (root.nodeName !== 'svg' || doc.getElementsByTagName('parsererror').length > 0) {
+    return null;
+  }
+
+  for (const name of BLOCKED_ELEMENTS) {
+    for (const element of Array.from(root.getElementsByTagName(name))) {
+      element.remove();
+    }
+  }
+  for (const element of [root, ...Array.from(root.getElementsByTagName('*'))]) {
+    for (const attribute of Array.from(element.attributes)) {
+      const name = attribute.name.toLowerCase();
+      const value = attribute.value.trim().toLowerCase();
+      const isExternalReference = (name === 'href' || name === 'xlink:href') && !value.startsWith('#');
+      if (name.startsWith('on') || isExternalReference || value.includes('javascript:')) {
+        element.removeAttribute(attribute.name);
+      }
+    }
+  }
+  return document.importNode(root, true) as unknown as SVGSVGElement;
+};
@@ -0,0 +1,50 @@
+// Runs the expensive tracing pipeline off the main thread so large images do not freeze the UI.
+
+import { traceImageData } from './vectorizerCore';
+import type { TraceOptions, TracedData, TraceProgress } from './vectorizerCore';
+
+export type TraceWorkerRequest = {
+  dataUrl: string;
+  options: TraceOptions;
+};
+
+export type TraceWorkerResponse =
+  | { type: 'progress'; progress: TraceProgress }
+  | { type: 'result'; tracedData: TracedData }
+  | { type: 'error'; message: string };
+
+// The project compiles against the DOM lib, so describe just the worker scope we use.
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<TraceWorkerRequest>) => void) | null;
+  postMessage: (message: TraceWorkerResponse) => void;
+};
+
+/**
+ * Decodes a data URL into pixel data using an OffscreenCanvas.
+ */
+const loadImageData = async (dataUrl: string): Promise<ImageData> => {
+  const blob = await (await fetch(dataUrl)).blob();
+  const bitmap = await createImageBitmap(blob);
+  const canvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Could not get canvas context.');
+  }
+  context.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+workerScope.onmessage = async (event) => {
+  const { dataUrl, options } = event.data;
+  try {
+    const imageData = await loadImageData(dataUrl);
+    const tracedData = traceImageData(imageData, options, (progress) => {
+      workerScope.postMessage({ type: 'progress', progress });
+    });
+    workerScope.postMessage({ type: 'result', tracedData });
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'An unknown error occurred while tracing.';
+    workerScope.postMessage({ type: 'error', message });
+  }
+};
@@ -0,0 +1,2585 @@
+// DOM-free core of the image-to-SVG vectorizer. Everything here works on raw RGBA buffers,
+// so it runs unchanged on the main thread, in the tracing worker and in Node (see cli/).
+
+export type Point = { x: number; y: number };
+export type Path = Point[];
+export type Color = { r: number; g: number; b: number; a: number };
+
+// Minimal structural stand-in for the DOM ImageData type; browser ImageData objects satisfy it.
+export type RasterImage = {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+};
+
+// Screen orientation of a contour (y axis pointing down).
+export type ContourWinding = 'cw' | 'ccw';
+
+// Position of a contour in its shape's nesting tree. Indices refer to TracedShape.contours.
+export type ContourNode = {
+  parent: number | null;
+  children: number[];
+  // Number of contours that enclose this one; odd depths are holes.
+  depth: number;
+  isHole: boolean;
+  winding: ContourWinding;
+};
+
+// A contour piece in shared-boundary mode: an index into TracedData.edges, walked backwards
+// when `reversed` is set.
+export type EdgeRef = { edge: number; reversed: boolean };
+
+export type TracedShape = {
+  color: Color;
+  contours: Path[];
+  // One entry per contour, in the same order.
+  hierarchy: ContourNode[];
+  area: number;
+  // Shared-boundary mode only: each contour as a chain of shared edges, in the same order.
+  loops?: EdgeRef[][];
+  // Centerline mode only: open skeleton lines (contours stay empty) and the estimated line
+  // width in pixels.
+  strokes?: Path[];
+  strokeWidth?: number;
+};
+
+export type TracedData = {
+  width: number;
+  height: number;
+  shapes: TracedShape[];
+  // Shared-boundary mode only: every boundary between two regions, traced once.
+  edges?: Path[];
+  // Set by the 'pixel-edges' tracer: contours run exactly along the pixel grid and are written
+  // out unsimplified.
+  pixelEdges?: boolean;
+  // Radius in pixels of the smoothing applied before tracing, which rounds off corners.
+  smoothingRadius?: number;
+  // Set by silhouette tracing: the single shape takes its fill from `silhouetteColor` when the
+  // SVG is generated. Layers carry their own colors, so layersToTracedData clears it.
+  silhouette?: boolean;
+};
+
+export type QuantizerMethod = 'grid' | 'median-cut' | 'kmeans' | 'exact';
+// 'outline' traces filled shapes; 'centerline' thins each color to its skeleton and traces
+// open strokes, for line art and handwriting; 'silhouette' thresholds the luminance and traces
+// one single-color shape, for stamps, engraving and icon fonts.
+export type TraceMode = 'outline' | 'centerline' | 'silhouette';
+// 'separate' traces each color on its own, 'stacked' extends every shape under the shapes drawn
+// above it so seams are covered, and 'shared' traces each boundary between two colors once.
+export type LayeringMode = 'separate' | 'stacked' | 'shared';
+// 'moore' follows pixel centers on the thresholded mask, 'marching-squares' interpolates the
+// blurred alpha for sub-pixel edges, and 'pixel-edges' follows the pixel grid exactly with no
+// smoothing (for pixel art). Shared-boundary layering always uses pixel edges.
+export type ContourTracer = 'moore' | 'marching-squares' | 'pixel-edges';
+
+export type TraceOptions = {
+  mode?: TraceMode;
+  tracingTolerance?: number;
+  // Palette builder: fixed bucket grid, median-cut, k-means in Lab space, or the most common
+  // exact colors.
+  quantizer?: QuantizerMethod;
+  // Upper bound on the number of palette colors (and therefore traced shapes).
+  maxColors?: number;
+  layering?: LayeringMode;
+  tracer?: ContourTracer;
+  // Silhouette mode only: the luminance (0-255) below which pixels are traced, or 'auto' to
+  // pick it with Otsu's method; `invert` traces the light side instead.
+  threshold?: number | 'auto';
+  invert?: boolean;
+};
+
+export type TraceProgress = {
+  completedLayers: number;
+  totalLayers: number;
+};
+
+export type PathMode = 'polyline' | 'curves';
+export type CurveType = 'cubic' | 'quadratic';
+// 'evenodd' writes every contour of a color into one even-odd path, 'nonzero' orients holes
+// against their outlines instead, and 'components' writes one path per outline and its holes.
+export type HoleMode = 'evenodd' | 'nonzero' | 'components';
+
+export type GenerateSvgOptions = {
+  simplification: number;
+  strokeEnabled: boolean;
+  strokeColor: string;
+  strokeWidth: number;
+  // 'polyline' emits simplified straight segments, 'curves' fits Bezier segments.
+  pathMode?: PathMode;
+  curveType?: CurveType;
+  // Minimum turning angle (degrees) that is kept as a sharp corner in 'curves' mode.
+  cornerThreshold?: number;
+  // Emit matching contours as <circle>, <ellipse>, <rect>, <line> or <polygon> elements.
+  detectPrimitives?: boolean;
+  // Maximum distance (pixels) between a contour and its detected primitive.
+  primitiveTolerance?: number;
+  holeMode?: HoleMode;
+  // Adds shape-rendering="crispEdges" so renderers skip anti-aliasing (for pixel art).
+  crispEdges?: boolean;
+  // Fill color of a silhouette trace, as #rrggbb. It is applied when the SVG is generated, so
+  // changing it does not re-trace.
+  silhouetteColor?: string;
+};
+
+// Settings the web app starts with. The CLI uses the same values so both produce identical output,
+// and traceImageData falls back to them for any option left out.
+export const DEFAULT_TRACE_OPTIONS: Required<TraceOptions> = {
+  mode: 'outline',
+  tracingTolerance: 2,
+  quantizer: 'grid',
+  maxColors: 16,
+  layering: 'separate',
+  tracer: 'moore',
+  threshold: 'auto',
+  invert: false,
+};
+
+export const DEFAULT_SVG_OPTIONS: Required<GenerateSvgOptions> = {
+  simplification: 2,
+  strokeEnabled: false,
+  strokeColor: '#000000',
+  strokeWidth: 1,
+  pathMode: 'polyline',
+  curveType: 'cubic',
+  cornerThreshold: 60,
+  detectPrimitives: false,
+  primitiveTolerance: 1,
+  holeMode: 'evenodd',
+  crispEdges: false,
+  silhouetteColor: '#000000',
+};
+
+type PaletteColor = Color & { count: number };
+type Quantizer = (imageData: RasterImage, maxColors: number) => PaletteColor[];
+
+const ALPHA_THRESHOLD = 10;
+const OPAQUE_THRESHOLD = 240;
+const MIN_PIXEL_COUNT = 4; // Filter out tiny color specks
+
+/**
+ * Groups nearly-opaque alpha values together to handle anti-aliasing at edges.
+ */
+const effectiveAlpha = (a: number): number => (a >= OPAQUE_THRESHOLD ? 255 : a);
+
+/**
+ * Collects visible pixels as [r, g, b, a] tuples, sampling with a fixed stride on large
+ * images so that the iterative quantizers stay fast.
+ */
+const samplePixels = (imageData: RasterImage, maxSamples: number): number[][] => {
+    const { data } = imageData;
+    const pixelCount = data.length / 4;
+    const stride = Math.max(1, Math.floor(pixelCount / maxSamples));
+    const samples: number[][] = [];
+    for (let p = 0; p < pixelCount; p += stride) {
+        const i = p * 4;
+        if (data[i + 3] > ALPHA_THRESHOLD) {
+            samples.push([data[i], data[i + 1], data[i + 2], effectiveAlpha(data[i + 3])]);
+        }
+    }
+    return samples;
+};
+
+/**
+ * Converts an sRGB color to CIE L*a*b* (D65), where Euclidean distance tracks perceived difference.
+ */
+const rgbToLab = (r: number, g: number, b: number): [number, number, number] => {
+    const toLinear = (c: number) => {
+        const v = c / 255;
+        return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+    };
+    const lr = toLinear(r), lg = toLinear(g), lb = toLinear(b);
+    const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047;
+    const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722;
+    const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883;
+    const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+    const fx = f(x), fy = f(y), fz = f(z);
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+};
+
+/**
+ * Maps an RGBA color to a 4D point in Lab space, with alpha scaled to the same range as L*.
+ */
+const toLabPoint = (r: number, g: number, b: number, a: number): number[] => [...rgbToLab(r, g, b), (a / 255) * 100];
+
+const squaredDistance = (p: number[], q: number[]): number => {
+    let sum = 0;
+    for (let i = 0; i < p.length; i++) sum += (p[i] - q[i]) ** 2;
+    return sum;
+};
+
+/**
+ * Averages a group of [r, g, b, a] samples into a palette entry.
+ */
+const averageColor = (pixels: number[][]): PaletteColor => {
+    const sum = [0, 0, 0, 0];
+    for (const p of pixels) {
+        for (let c = 0; c < 4; c++) sum[c] += p[c];
+    }
+    const n = pixels.length || 1;
+    return {
+        r: Math.round(sum[0] / n),
+        g: Math.round(sum[1] / n),
+        b: Math.round(sum[2] / n),
+        a: Math.round(sum[3] / n),
+        count: pixels.length,
+    };
+};
+
+/**
+ * Groups similar colors into a fixed grid of buckets and keeps the most common ones, dropping
+ * buckets too small to trace.
+ */
+const quantizeGrid: Quantizer = (imageData, maxColors) => {
+    const colorMap = new Map<string, PaletteColor>();
+    const { data } = imageData;
+    // Quantization level. A higher value means fewer colors and more grouping.
+    const Q = 16;
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] > ALPHA_THRESHOLD) {
+        // Use floor instead of round to prevent values from exceeding 255.
+        const r = Math.floor(data[i] / Q) * Q;
+        const g = Math.floor(data[i + 1] / Q) * Q;
+        const b = Math.floor(data[i + 2] / Q) * Q;
+        const a = Math.floor(data[i + 3] / (Q*2)) * (Q*2);
+
+        const key = `${r},${g},${b},${effectiveAlpha(a)}`;
+
+        let entry = colorMap.get(key);
+        if (!entry) {
+          // Use the original alpha for the representative color of the group
+          entry = { r, g, b, a, count: 0 };
+          colorMap.set(key, entry);
+        }
+        entry.count++;
+      }
+    }
+
+    return Array.from(colorMap.values())
+        .filter(c => c.count >= MIN_PIXEL_COUNT)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, maxColors);
+};
+
+/**
+ * Median-cut quantization: repeatedly splits the box of colors with the widest channel
+ * range at its median until the palette reaches the requested size.
+ */
+const quantizeMedianCut: Quantizer = (imageData, maxColors) => {
+    const samples = samplePixels(imageData, 200000);
+    if (samples.length === 0) return [];
+
+    const channelRange = (box: number[][], c: number) => {
+        let min = 255, max = 0;
+        for (const p of box) {
+            if (p[c] < min) min = p[c];
+            if (p[c] > max) max = p[c];
+        }
+        return max - min;
+    };
+
+    const boxes: number[][][] = [samples];
+    while (boxes.length < maxColors) {
+        let bestBox = -1;
+        let bestChannel = 0;
+        let bestScore = 0;
+        boxes.forEach((box, index) => {
+            if (box.length < 2) return;
+            for (let c = 0; c < 4; c++) {
+                // Weighting by population splits the boxes that matter most visually.
+                const score = channelRange(box, c) * Math.sqrt(box.length);
+                if (score > bestScore) {
+                    bestScore = score;
+                    bestBox = index;
+                    bestChannel = c;
+                }
+            }
+        });
+        if (bestBox === -1) break;
+
+        const box = boxes[bestBox].sort((p, q) => p[bestChannel] - q[bestChannel]);
+        const median = Math.floor(box.length / 2);
+        boxes.splice(bestBox, 1, box.slice(0, median), box.slice(median));
+    }
+
+    return boxes.filter(box => box.length > 0).map(averageColor);
+};
+
+/**
+ * K-means quantization in Lab space, seeded by farthest-point selection so that small but
+ * distinct colors (e.g. brand accents) get their own cluster.
+ */
+const quantizeKMeans: Quantizer = (imageData, maxColors) => {
+    const samples = samplePixels(imageData, 20000);
+    if (samples.length === 0) return [];
+    const points = samples.map(([r, g, b, a]) => toLabPoint(r, g, b, a));
+    const k = Math.min(maxColors, points.length);
+
+    // Farthest-point (maximin) seeding: each new center is the point farthest from the existing
+    // ones. Unlike the random draws of k-means++, it gives the same palette on every run, so
+    // re-tracing with unchanged settings never shifts the colors.
+    const centers: number[][] = [points[0]];
+    const nearest = points.map(p => squaredDistance(p, points[0]));
+    while (centers.length < k) {
+        let farthest = 0;
+        for (let i = 1; i < points.length; i++) {
+            if (nearest[i] > nearest[farthest]) farthest = i;
+        }
+        if (nearest[farthest] === 0) break;
+        centers.push(points[farthest]);
+        for (let i = 0; i < points.length; i++) {
+            nearest[i] = Math.min(nearest[i], squaredDistance(points[i], points[farthest]));
+        }
+    }
+
+    const assignments = new Int32Array(points.length);
+    for (let iteration = 0; iteration < 12; iteration++) {
+        let changed = false;
+        for (let i = 0; i < points.length; i++) {
+            let best = 0;
+            let bestDist = Infinity;
+            for (let c = 0; c < centers.length; c++) {
+                const d = squaredDistance(points[i], centers[c]);
+                if (d < bestDist) {
+                    bestDist = d;
+                    best = c;
+                }
+            }
+            if (assignments[i] !== best) {
+                assignments[i] = best;
+                changed = true;
+            }
+        }
+        if (!changed && iteration > 0) break;
+
+        const sums = centers.map(() => [0, 0, 0, 0, 0]);
+        for (let i = 0; i < points.length; i++) {
+            const sum = sums[assignments[i]];
+            for (let d = 0; d < 4; d++) sum[d] += points[i][d];
+            sum[4]++;
+        }
+        sums.forEach((sum, c) => {
+            if (sum[4] > 0) centers[c] = sum.slice(0, 4).map(v => v / sum[4]);
+        });
+    }
+
+    const groups: number[][][] = centers.map(() => []);
+    samples.forEach((sample, i) => groups[assignments[i]].push(sample));
+    return groups.filter(group => group.length > 0).map(averageColor);
+};
+
+/**
+ * Keeps the most common colors unchanged, so images with a small palette (pixel art) come
+ * out with their exact colors.
+ */
+const quantizeExact: Quantizer = (imageData, maxColors) => {
+    const colorMap = new Map<number, PaletteColor>();
+    const { data } = imageData;
+
+    for (let i = 0; i < data.length; i += 4) {
+      if (data[i + 3] > ALPHA_THRESHOLD) {
+        const a = effectiveAlpha(data[i + 3]);
+        const key = ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | a) >>> 0;
+        let entry = colorMap.get(key);
+        if (!entry) {
+          entry = { r: data[i], g: data[i + 1], b: data[i + 2], a, count: 0 };
+          colorMap.set(key, entry);
+        }
+        entry.count++;
+      }
+    }
+
+    return Array.from(colorMap.values())
+        .sort((a, b) => b.count - a.count)
+        .slice(0, maxColors);
+};
+
+const quantizers: Record<QuantizerMethod, Quantizer> = {
+    'grid': quantizeGrid,
+    'median-cut': quantizeMedianCut,
+    'kmeans': quantizeKMeans,
+    'exact': quantizeExact,
+};
+
+/**
+ * Labels every visible pixel with the index of its nearest palette entry (in Lab space),
+ * or -1 for transparent pixels. Results are cached per RGBA value.
+ */
+const assignPixelsToPalette = (imageData: RasterImage, palette: Color[]): Int32Array => {
+    const { data } = imageData;
+    const labels = new Int32Array(data.length / 4).fill(-1);
+    const paletteLab = palette.map(c => toLabPoint(c.r, c.g, c.b, effectiveAlpha(c.a)));
+    const cache = new Map<number, number>();
+
+    for (let p = 0; p < labels.length; p++) {
+        const i = p * 4;
+        const a = data[i + 3];
+        if (a <= ALPHA_THRESHOLD) continue;
+        const key = ((data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | a) >>> 0;
+        let label = cache.get(key);
+        if (label === undefined) {
+            const lab = toLabPoint(data[i], data[i + 1], data[i + 2], effectiveAlpha(a));
+            let bestDist = Infinity;
+            label = -1;
+            for (let c = 0; c < paletteLab.length; c++) {
+                const d = squaredDistance(lab, paletteLab[c]);
+                if (d < bestDist) {
+                    bestDist = d;
+                    label = c;
+                }
+            }
+            cache.set(key, label);
+        }
+        labels[p] = label;
+    }
+    return labels;
+};
+
+/**
+ * Quantizes the image with the chosen method and labels every pixel with its nearest
+ * palette entry. Palette counts reflect the final assignment.
+ */
+const quantizeImage = (imageData: RasterImage, method: QuantizerMethod, maxColors: number): { palette: PaletteColor[]; labels: Int32Array } => {
+    const palette = quantizers[method](imageData, Math.max(1, Math.floor(maxColors)));
+    const labels = assignPixelsToPalette(imageData, palette);
+    palette.forEach(color => { color.count = 0; });
+    for (let p = 0; p < labels.length; p++) {
+        if (labels[p] >= 0) palette[labels[p]].count++;
+    }
+    return { palette, labels };
+};
+
+
+/**
+ * Creates a new raster serving as a mask for a set of palette entries.
+ * Pixels assigned to those entries are made opaque black, others are transparent.
+ */
+const createColorMask = (imageData: RasterImage, labels: Int32Array, paletteIndices: Set<number>): RasterImage => {
+    const { width, height } = imageData;
+    const maskData = new Uint8ClampedArray(labels.length * 4);
+    for (let p = 0; p < labels.length; p++) {
+        if (paletteIndices.has(labels[p])) {
+            maskData[p * 4 + 3] = 255;
+        }
+    }
+    return { width, height, data: maskData };
+};
+
+/**
+ * Applies a fast, separable box blur to the alpha channel of a raster image.
+ * This is used to simplify shapes by smoothing their edges before tracing.
+ * @param imageData The image data to blur.
+ * @param radius The blur radius (integer).
+ * @returns The blurred image.
+ */
+const applyFastBlur = (imageData: RasterImage, radius: number): RasterImage => {
+    if (radius < 1) return imageData;
+    radius = Math.floor(radius);
+    
+    const w = imageData.width;
+    const h = imageData.height;
+    const data = imageData.data;
+    const temp = new Uint8ClampedArray(data.length);
+    temp.set(data);
+    
+    // Horizontal pass
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            let a = 0;
+            let count = 0;
+            for (let i = -radius; i <= radius; i++) {
+                const xi = x + i;
+                if (xi >= 0 && xi < w) {
+                    a += temp[(y * w + xi) * 4 + 3];
+                    count++;
+                }
+            }
+            data[(y * w + x) * 4 + 3] = a / count;
+        }
+    }
+
+    temp.set(data);
+
+    // Vertical pass
+    for (let y = 0; y < h; y++) {
+        for (let x = 0; x < w; x++) {
+            let a = 0;
+            let count = 0;
+            for (let i = -radius; i <= radius; i++) {
+                const yi = y + i;
+                if (yi >= 0 && yi < h) {
+                    a += temp[(yi * w + x) * 4 + 3];
+                    count++;
+                }
+            }
+            data[(y * w + x) * 4 + 3] = a / count;
+        }
+    }
+    
+    return imageData;
+};
+
+/**
+ * Converts a grayscale (alpha channel) image to a binary mask based on a threshold.
+ * @param imageData The image data to process.
+ * @param threshold The alpha value threshold (0-255).
+ * @returns The binary mask image.
+ */
+const applyThreshold = (imageData: RasterImage, threshold: number): RasterImage => {
+    const { width, height, data } = imageData;
+    for (let i = 0; i < data.length; i += 4) {
+        data[i + 3] = data[i + 3] >= threshold ? 255 : 0;
+    }
+    return imageData;
+};
+
+
+/**
+ * Smooths a binary mask before tracing: blurs it and thresholds it again, or leaves the soft
+ * edge for the marching squares tracer. Pixel-exact tracing skips smoothing entirely.
+ */
+const smoothMask = (mask: RasterImage, tracingTolerance: number, tracer: ContourTracer): RasterImage => {
+    if (tracingTolerance <= 0 || tracer === 'pixel-edges') return mask;
+    const blurredMask = applyFastBlur(mask, Math.round(tracingTolerance));
+    // Marching squares follows the soft edge itself; thresholding would throw away the sub-pixel detail.
+    return tracer === 'marching-squares' ? blurredMask : applyThreshold(blurredMask, 128);
+};
+
+/**
+ * Picks the luminance threshold that best separates dark from light pixels (Otsu's method).
+ * @param histogram Pixel counts for each luminance value 0-255.
+ * @returns The threshold: pixels below it form the dark class.
+ */
+export const computeOtsuThreshold = (histogram: ArrayLike<number>): number => {
+    let total = 0;
+    let sum = 0;
+    for (let v = 0; v < 256; v++) {
+        total += histogram[v];
+        sum += v * histogram[v];
+    }
+    let darkCount = 0;
+    let darkSum = 0;
+    let bestVariance = -1;
+    let best = 128;
+    for (let t = 1; t < 256; t++) {
+        darkCount += histogram[t - 1];
+        darkSum += (t - 1) * histogram[t - 1];
+        const lightCount = total - darkCount;
+        if (darkCount === 0 || lightCount === 0) continue;
+        const meanDifference = darkSum / darkCount - (sum - darkSum) / lightCount;
+        const variance = darkCount * lightCount * meanDifference * meanDifference;
+        if (variance > bestVariance) {
+            bestVariance = variance;
+            best = t;
+        }
+    }
+    return best;
+};
+
+/**
+ * Thresholds an image's luminance into a silhouette mask. Transparent pixels count as white.
+ * @param imageData The image.
+ * @param threshold Luminance (0-255) below which pixels belong to the silhouette, or 'auto'.
+ * @param invert Take the pixels at or above the threshold instead.
+ * @returns The mask (opaque where traced), the threshold used and the number of traced pixels.
+ */
+export const createSilhouetteMask = (
+    imageData: RasterImage,
+    threshold: number | 'auto',
+    invert: boolean,
+): { mask: RasterImage; threshold: number; count: number } => {
+    const { width, height, data } = imageData;
+    const maskData = new Uint8ClampedArray(data.length);
+    const histogram = new Uint32Array(256);
+    for (let i = 0; i < data.length; i += 4) {
+        const a = data[i + 3] / 255;
+        const luminance = Math.round((0.2126 * data[i] + 0.7152 * data[i + 1] + 0.0722 * data[i + 2]) * a + 255 * (1 - a));
+        histogram[luminance]++;
+        // The alpha channel holds darkness (or lightness when inverted) so applyThreshold can cut it.
+        maskData[i + 3] = invert ? luminance : 255 - luminance;
+    }
+    const cutoff = threshold === 'auto' ? computeOtsuThreshold(histogram) : Math.min(Math.max(Math.round(threshold), 0), 256);
+    // Dark pixels satisfy luminance < cutoff, that is darkness >= 256 - cutoff.
+    const mask = applyThreshold({ width, height, data: maskData }, invert ? cutoff : 256 - cutoff);
+    let count = 0;
+    for (let i = 3; i < maskData.length; i += 4) {
+        if (maskData[i]) count++;
+    }
+    return { mask, threshold: cutoff, count };
+};
+
+export const hexToColor = (hex: string): Color => {
+    const value = parseInt(hex.replace('#', '').slice(0, 6), 16) || 0;
+    return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255, a: 255 };
+};
+
+/**
+ * Simplifies a path using the Ramer-Douglas-Peucker algorithm.
+ */
+export const simplifyPath = (points: Path, epsilon: number): Path => {
+  if (points.length < 3) {
+    return points;
+  }
+
+  const getSquareSegmentDistance = (p: Point, p1: Point, p2: Point) => {
+    let { x, y } = p1;
+    let dx = p2.x - x;
+    let dy = p2.y - y;
+
+    if (dx !== 0 || dy !== 0) {
+      const t = ((p.x - x) * dx + (p.y - y) * dy) / (dx * dx + dy * dy);
+      if (t > 1) {
+        x = p2.x;
+        y = p2.y;
+      } else if (t > 0) {
+        x += dx * t;
+        y += dy * t;
+      }
+    }
+    dx = p.x - x;
+    dy = p.y - y;
+    return dx * dx + dy * dy;
+  };
+
+  let maxDist = 0;
+  let index = 0;
+  const last = points.length - 1;
+
+  for (let i = 1; i < last; i++) {
+    const dist = getSquareSegmentDistance(points[i], points[0], points[last]);
+    if (dist > maxDist) {
+      index = i;
+      maxDist = dist;
+    }
+  }
+
+  if (maxDist > epsilon * epsilon) {
+    const left = simplifyPath(points.slice(0, index + 1), epsilon);
+    const right = simplifyPath(points.slice(index), epsilon);
+    return left.slice(0, left.length - 1).concat(right);
+  } else {
+    return [points[0], points[last]];
+  }
+};
+
+/**
+ * Traces all contours in the image data, including both outer shapes and inner holes,
+ * without merging separate visual elements.
+ */
+const traceContours = (imageData: RasterImage): Path[] => {
+  const { width, height, data } = imageData;
+  const visited = new Uint8Array(width * height);
+  const paths: Path[] = [];
+  const ALPHA_THRESHOLD = 128;
+
+  const isOpaque = (x: number, y: number): boolean => {
+    if (x < 0 || x >= width || y < 0 || y >= height) return false;
+    return data[(y * width + x) * 4 + 3] > ALPHA_THRESHOLD;
+  };
+  
+  const directions = [
+    { x: 0, y: -1 }, { x: 1, y: -1 }, { x: 1, y: 0 }, { x: 1, y: 1 },
+    { x: 0, y: 1 }, { x: -1, y: 1 }, { x: -1, y: 0 }, { x: -1, y: -1 }
+  ];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const index = y * width + x;
+      if (visited[index] || !isOpaque(x, y)) {
+        continue;
+      }
+      
+      const isBoundary = (x === 0 || y === 0 || x === width - 1 || y === height - 1) || 
+                         !isOpaque(x + 1, y) || !isOpaque(x - 1, y) ||
+                         !isOpaque(x, y + 1) || !isOpaque(x, y - 1);
+                         
+      if (!isBoundary) {
+        continue;
+      }
+
+      const startPoint = { x, y };
+      const path: Path = [];
+      let currentPoint = startPoint;
+      let dir = 0; 
+
+      do {
+        path.push(currentPoint);
+        
+        const startSearchDir = (dir + 6) % 8;
+        let foundNext = false;
+        for (let i = 0; i < 8; i++) {
+            const nextDir = (startSearchDir + i) % 8;
+            const nextPoint = { 
+                x: currentPoint.x + directions[nextDir].x, 
+                y: currentPoint.y + directions[nextDir].y 
+            };
+            
+            if (isOpaque(nextPoint.x, nextPoint.y)) {
+                dir = nextDir;
+                currentPoint = nextPoint;
+                foundNext = true;
+                break;
+            }
+        }
+         if (!foundNext) break; 
+      } while (currentPoint.x !== startPoint.x || currentPoint.y !== startPoint.y);
+
+      if (path.length > 2) {
+          paths.push(path);
+          for (const p of path) {
+              visited[p.y * width + p.x] = 1;
+          }
+      }
+    }
+  }
+  return paths;
+};
+
+/**
+ * Traces the iso-contours of the alpha channel with marching squares, interpolating linearly
+ * between pixels so edges land at sub-pixel positions. Pixel values are sampled at pixel
+ * centers, so a hard edge comes out exactly on the pixel boundary.
+ * @param imageData The (blurred) mask to trace.
+ * @param iso The alpha level the contours follow.
+ * @returns Closed contours with outlines clockwise and holes counter-clockwise.
+ */
+const traceMarchingSquares = (imageData: RasterImage, iso: number): Path[] => {
+  const { width, height, data } = imageData;
+  const valueAt = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : data[(y * width + x) * 4 + 3]);
+
+  // Cell corners in order top-left, top-right, bottom-right, bottom-left, and the cell edges
+  // (top, right, bottom, left) as pairs of corners.
+  const CORNER_OFFSETS = [[0, 0], [1, 0], [1, 1], [0, 1]];
+  const EDGE_CORNERS = [[0, 1], [1, 2], [3, 2], [0, 3]];
+
+  // Grid edges are numbered globally so the segments of neighbouring cells can be linked.
+  const gridWidth = width + 2;
+  const edgeId = (x: number, y: number, edge: number): number => {
+    switch (edge) {
+      case 0: return ((y + 1) * gridWidth + (x + 1)) * 2;
+      case 1: return ((y + 1) * gridWidth + (x + 2)) * 2 + 1;
+      case 2: return ((y + 2) * gridWidth + (x + 1)) * 2;
+      default: return ((y + 1) * gridWidth + (x + 1)) * 2 + 1;
+    }
+  };
+
+  const next = new Map<number, number>();
+  const crossings = new Map<number, Point>();
+
+  for (let y = -1; y < height; y++) {
+    for (let x = -1; x < width; x++) {
+      const values = CORNER_OFFSETS.map(([dx, dy]) => valueAt(x + dx, y + dy));
+      const inside = values.map(v => v >= iso);
+      const crossingEdges = [0, 1, 2, 3].filter(e => inside[EDGE_CORNERS[e][0]] !== inside[EDGE_CORNERS[e][1]]);
+      if (crossingEdges.length === 0) continue;
+
+      const crossingPoint = (edge: number): Point => {
+        const [a, b] = EDGE_CORNERS[edge];
+        const t = (iso - values[a]) / (values[b] - values[a]);
+        return {
+          x: x + CORNER_OFFSETS[a][0] + t * (CORNER_OFFSETS[b][0] - CORNER_OFFSETS[a][0]) + 0.5,
+          y: y + CORNER_OFFSETS[a][1] + t * (CORNER_OFFSETS[b][1] - CORNER_OFFSETS[a][1]) + 0.5,
+        };
+      };
+
+      let pairs: [number, number][];
+      if (crossingEdges.length === 2) {
+        pairs = [[crossingEdges[0], crossingEdges[1]]];
+      } else {
+        // Saddle: the cell center decides whether the two inside corners are connected.
+        const centerInside = values.reduce((sum, v) => sum + v, 0) / 4 >= iso;
+        pairs = inside[0] === centerInside ? [[0, 1], [2, 3]] : [[0, 3], [1, 2]];
+      }
+
+      for (const [edgeA, edgeB] of pairs) {
+        // Orient the segment so the inside lies on its right; test against the corner the two
+        // edges share, or any corner when they are opposite.
+        const shared = EDGE_CORNERS[edgeA].find(c => EDGE_CORNERS[edgeB].includes(c)) ?? EDGE_CORNERS[edgeA][0];
+        const a = crossingPoint(edgeA);
+        const b = crossingPoint(edgeB);
+        const corner = { x: x + CORNER_OFFSETS[shared][0] + 0.5, y: y + CORNER_OFFSETS[shared][1] + 0.5 };
+        const cross = (b.x - a.x) * (corner.y - a.y) - (b.y - a.y) * (corner.x - a.x);
+        const [from, to] = (cross > 0) === inside[shared] ? [edgeA, edgeB] : [edgeB, edgeA];
+        const fromId = edgeId(x, y, from);
+        next.set(fromId, edgeId(x, y, to));
+        crossings.set(fromId, from === edgeA ? a : b);
+      }
+    }
+  }
+
+  const paths: Path[] = [];
+  for (const start of next.keys()) {
+    if (!crossings.has(start)) continue;
+    const path: Path = [];
+    let id: number | undefined = start;
+    while (id !== undefined && crossings.has(id)) {
+      path.push(crossings.get(id)!);
+      crossings.delete(id);
+      id = next.get(id);
+    }
+    if (path.length > 2) paths.push(path);
+  }
+  return paths;
+};
+
+/**
+ * Checks whether a point lies inside a closed polygon using ray casting.
+ */
+export const isPointInPolygon = (p: Point, polygon: Path): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > p.y) !== (b.y > p.y) && p.x < ((b.x - a.x) * (p.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Computes the signed area of a closed path. Positive values are clockwise on screen.
+ */
+const signedArea = (path: Path): number => {
+  let sum = 0;
+  for (let i = 0, j = path.length - 1; i < path.length; j = i++) {
+    sum += (path[j].x * path[i].y) - (path[i].x * path[j].y);
+  }
+  return sum / 2;
+};
+
+/**
+ * Tests whether one contour lies inside another. Contours traced from the same mask can share
+ * boundary pixels, so the test uses the first point of `inner` that is not on `outer`.
+ */
+const isContourInside = (inner: Path, outer: Path, outerPoints: Set<string>): boolean => {
+  const probe = inner.find(p => !outerPoints.has(`${p.x},${p.y}`));
+  return probe !== undefined && isPointInPolygon(probe, outer);
+};
+
+/**
+ * Builds the nesting tree of a shape's contours: each contour's parent is the smallest contour
+ * that encloses it, and every other level of nesting is a hole.
+ */
+export const buildContourHierarchy = (contours: Path[]): ContourNode[] => {
+  const areas = contours.map(signedArea);
+  const bounds = contours.map(contour => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const p of contour) {
+      minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+      minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }
+    return { minX, minY, maxX, maxY };
+  });
+  const pointSets = contours.map(contour => new Set(contour.map(p => `${p.x},${p.y}`)));
+
+  const nodes: ContourNode[] = contours.map((contour, i) => {
+    let parent: number | null = null;
+    let depth = 0;
+    contours.forEach((other, j) => {
+      // Only a strictly larger contour whose bounding box covers this one can enclose it.
+      if (j === i || other.length < 3 || Math.abs(areas[j]) <= Math.abs(areas[i])) return;
+      const a = bounds[i];
+      const b = bounds[j];
+      if (a.minX < b.minX || a.minY < b.minY || a.maxX > b.maxX || a.maxY > b.maxY) return;
+      if (!isContourInside(contour, other, pointSets[j])) return;
+      depth++;
+      if (parent === null || Math.abs(areas[j]) < Math.abs(areas[parent])) {
+        parent = j;
+      }
+    });
+    return { parent, children: [], depth, isHole: depth % 2 === 1, winding: areas[i] >= 0 ? 'cw' : 'ccw' };
+  });
+
+  nodes.forEach((node, i) => {
+    if (node.parent !== null) nodes[node.parent].children.push(i);
+  });
+  return nodes;
+};
+
+/**
+ * Returns the contour with outlines running clockwise and holes counter-clockwise, as the
+ * nonzero fill rule needs.
+ */
+const orientContour = (contour: Path, node: ContourNode): Path => {
+  const wanted: ContourWinding = node.isHole ? 'ccw' : 'cw';
+  return node.winding === wanted ? contour : [...contour].reverse();
+};
+
+type SharedEdge = {
+  points: Path;
+  // Regions on either side when walking the points in order (-1 is transparent or outside).
+  left: number;
+  right: number;
+};
+
+/**
+ * Maps palette labels to indices into the kept colors. Entries dropped as too small are folded
+ * into the closest kept color so that the regions still tile the image.
+ */
+const buildRegionLabels = (labels: Int32Array, palette: PaletteColor[], colors: PaletteColor[]): Int32Array => {
+  const colorsLab = colors.map(c => toLabPoint(c.r, c.g, c.b, effectiveAlpha(c.a)));
+  const paletteToRegion = palette.map(color => {
+    const kept = colors.indexOf(color);
+    if (kept !== -1) return kept;
+    const lab = toLabPoint(color.r, color.g, color.b, effectiveAlpha(color.a));
+    let best = 0;
+    colorsLab.forEach((other, i) => {
+      if (squaredDistance(lab, other) < squaredDistance(lab, colorsLab[best])) best = i;
+    });
+    return best;
+  });
+  return labels.map(label => (label >= 0 ? paletteToRegion[label] : -1));
+};
+
+/**
+ * Smooths region edges the way the per-color blur does, while keeping the regions a partition:
+ * every pixel goes to the region whose blurred mask is strongest there.
+ */
+const smoothRegionLabels = (regions: Int32Array, width: number, height: number, radius: number): Int32Array => {
+  const strongest = new Int16Array(regions.length).fill(-1);
+  const result = new Int32Array(regions);
+  for (const region of new Set(regions)) {
+    const data = new Uint8ClampedArray(regions.length * 4);
+    for (let p = 0; p < regions.length; p++) {
+      if (regions[p] === region) data[p * 4 + 3] = 255;
+    }
+    const blurred = applyFastBlur({ width, height, data }, radius).data;
+    for (let p = 0; p < regions.length; p++) {
+      const value = blurred[p * 4 + 3];
+      // Ties go to the pixel's own region so flat areas stay put.
+      if (value > strongest[p] || (value === strongest[p] && regions[p] === region)) {
+        strongest[p] = value;
+        result[p] = region;
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Traces the boundaries between regions along pixel edges. Each boundary is split at the
+ * corners where three or more regions meet, so every edge separates exactly two regions and
+ * is stored only once.
+ */
+const traceSharedEdges = (regions: Int32Array, width: number, height: number): SharedEdge[] => {
+  const regionAt = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? -1 : regions[y * width + x]);
+  // Directions from a pixel corner: east, south, west, north.
+  const DX = [1, 0, -1, 0];
+  const DY = [0, 1, 0, -1];
+  // Regions to the right and left of a step, with y pointing down.
+  const rightOf = (x: number, y: number, dir: number) =>
+    [regionAt(x, y), regionAt(x - 1, y), regionAt(x - 1, y - 1), regionAt(x, y - 1)][dir];
+  const leftOf = (x: number, y: number, dir: number) =>
+    [regionAt(x, y - 1), regionAt(x, y), regionAt(x - 1, y), regionAt(x - 1, y - 1)][dir];
+
+  // Horizontal pixel edges run from (x, y) to (x + 1, y), vertical ones from (x, y) to (x, y + 1).
+  const horizontalVisited = new Uint8Array((height + 1) * width);
+  const verticalVisited = new Uint8Array(height * (width + 1));
+  const visitedIndex = (x: number, y: number, dir: number): [Uint8Array, number] => {
+    switch (dir) {
+      case 0: return [horizontalVisited, y * width + x];
+      case 1: return [verticalVisited, y * (width + 1) + x];
+      case 2: return [horizontalVisited, y * width + x - 1];
+      default: return [verticalVisited, (y - 1) * (width + 1) + x];
+    }
+  };
+  const isVisited = (x: number, y: number, dir: number) => {
+    const [array, index] = visitedIndex(x, y, dir);
+    return array[index] === 1;
+  };
+  const markVisited = (x: number, y: number, dir: number) => {
+    const [array, index] = visitedIndex(x, y, dir);
+    array[index] = 1;
+  };
+  const isBoundary = (x: number, y: number, dir: number) => {
+    const nx = x + DX[dir];
+    const ny = y + DY[dir];
+    if (nx < 0 || ny < 0 || nx > width || ny > height) return false;
+    return leftOf(x, y, dir) !== rightOf(x, y, dir);
+  };
+  const degree = (x: number, y: number) => {
+    let count = 0;
+    for (let dir = 0; dir < 4; dir++) {
+      if (isBoundary(x, y, dir)) count++;
+    }
+    return count;
+  };
+
+  const walk = (startX: number, startY: number, startDir: number): SharedEdge => {
+    const points: Path = [{ x: startX, y: startY }];
+    const edge = { points, left: leftOf(startX, startY, startDir), right: rightOf(startX, startY, startDir) };
+    let x = startX;
+    let y = startY;
+    let dir = startDir;
+    for (;;) {
+      markVisited(x, y, dir);
+      x += DX[dir];
+      y += DY[dir];
+      points.push({ x, y });
+      if ((x === startX && y === startY) || degree(x, y) !== 2) return edge;
+      const back = (dir + 2) % 4;
+      let next = -1;
+      for (let d = 0; d < 4 && next === -1; d++) {
+        if (d !== back && isBoundary(x, y, d)) next = d;
+      }
+      if (next === -1) return edge;
+      dir = next;
+    }
+  };
+
+  const edges: SharedEdge[] = [];
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x <= width; x++) {
+      const cornerDegree = degree(x, y);
+      if (cornerDegree === 0 || cornerDegree === 2) continue;
+      for (let dir = 0; dir < 4; dir++) {
+        if (isBoundary(x, y, dir) && !isVisited(x, y, dir)) edges.push(walk(x, y, dir));
+      }
+    }
+  }
+
+  // What is left are closed boundaries with no junction on them (islands inside a single
+  // region). Split each in two so every edge has distinct end points to simplify between.
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isBoundary(x, y, 0) || isVisited(x, y, 0)) continue;
+      const loop = walk(x, y, 0);
+      const middle = Math.floor((loop.points.length - 1) / 2);
+      edges.push({ ...loop, points: loop.points.slice(0, middle + 1) });
+      edges.push({ ...loop, points: loop.points.slice(middle) });
+    }
+  }
+  return edges;
+};
+
+/**
+ * Chains the edges bordering a region into closed loops. Edges are walked with the region on
+ * their right, so outlines run clockwise and holes counter-clockwise.
+ */
+const assembleRegionLoops = (edges: SharedEdge[], region: number): EdgeRef[][] => {
+  const key = (p: Point) => `${p.x},${p.y}`;
+  const edgeEnd = (ref: EdgeRef) => {
+    const points = edges[ref.edge].points;
+    return ref.reversed ? points[0] : points[points.length - 1];
+  };
+  const outgoing = new Map<string, EdgeRef[]>();
+  const addOutgoing = (from: Point, ref: EdgeRef) => {
+    const list = outgoing.get(key(from));
+    if (list) list.push(ref);
+    else outgoing.set(key(from), [ref]);
+  };
+  edges.forEach((edge, index) => {
+    if (edge.right === region) addOutgoing(edge.points[0], { edge: index, reversed: false });
+    if (edge.left === region) addOutgoing(edge.points[edge.points.length - 1], { edge: index, reversed: true });
+  });
+
+  const loops: EdgeRef[][] = [];
+  for (const [start, list] of outgoing) {
+    while (list.length > 0) {
+      const loop = [list.pop()!];
+      let end = key(edgeEnd(loop[0]));
+      while (end !== start) {
+        const next = outgoing.get(end)?.pop();
+        if (!next) break;
+        loop.push(next);
+        end = key(edgeEnd(next));
+      }
+      loops.push(loop);
+    }
+  }
+  return loops;
+};
+
+/**
+ * Joins the (possibly simplified) edges of a loop into one closed path.
+ */
+const loopToPath = (loop: EdgeRef[], edgePaths: Path[]): Path => {
+  const path: Path = [];
+  for (const { edge, reversed } of loop) {
+    const points = reversed ? [...edgePaths[edge]].reverse() : edgePaths[edge];
+    path.push(...points.slice(0, -1));
+  }
+  return path;
+};
+
+/**
+ * Traces a mask along pixel edges, giving rectilinear contours with a vertex only where the
+ * outline turns. Outlines run clockwise and holes counter-clockwise.
+ */
+const tracePixelEdges = (imageData: RasterImage): Path[] => {
+  const { width, height, data } = imageData;
+  // A mask is a two-region image: reuse the shared-boundary walker and keep the opaque side.
+  const regions = new Int32Array(width * height);
+  for (let p = 0; p < regions.length; p++) {
+    regions[p] = data[p * 4 + 3] >= 128 ? 0 : -1;
+  }
+  const edges = traceSharedEdges(regions, width, height);
+  const edgePaths = edges.map(edge => edge.points);
+  return assembleRegionLoops(edges, 0).map(loop => {
+    const path = loopToPath(loop, edgePaths);
+    return path.filter((p, i) => {
+      const prev = path[(i + path.length - 1) % path.length];
+      const next = path[(i + 1) % path.length];
+      return !((prev.x === p.x && p.x === next.x) || (prev.y === p.y && p.y === next.y));
+    });
+  });
+};
+
+/**
+ * Reads a mask as one byte per pixel: 1 where the mask is set, 0 elsewhere.
+ */
+const maskToBinary = (imageData: RasterImage): Uint8Array => {
+  const { data } = imageData;
+  const pixels = new Uint8Array(data.length / 4);
+  for (let p = 0; p < pixels.length; p++) {
+    pixels[p] = data[p * 4 + 3] >= 128 ? 1 : 0;
+  }
+  return pixels;
+};
+
+/**
+ * Thins a binary mask to lines one pixel wide with the Zhang-Suen algorithm.
+ */
+const skeletonize = (mask: Uint8Array, width: number, height: number): Uint8Array => {
+  const pixels = new Uint8Array(mask);
+  const at = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : pixels[y * width + x]);
+  const toClear: number[] = [];
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const step of [0, 1]) {
+      toClear.length = 0;
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          if (!pixels[y * width + x]) continue;
+          // Neighbours clockwise from north (P2..P9 in the original paper).
+          const n = [at(x, y - 1), at(x + 1, y - 1), at(x + 1, y), at(x + 1, y + 1), at(x, y + 1), at(x - 1, y + 1), at(x - 1, y), at(x - 1, y - 1)];
+          const count = n.reduce((sum, v) => sum + v, 0);
+          if (count < 2 || count > 6) continue;
+          let transitions = 0;
+          for (let i = 0; i < 8; i++) {
+            if (!n[i] && n[(i + 1) % 8]) transitions++;
+          }
+          if (transitions !== 1) continue;
+          // The first sub-iteration peels south-east edges, the second north-west ones.
+          const keep = step === 0
+            ? (n[0] && n[2] && n[4]) || (n[2] && n[4] && n[6])
+            : (n[0] && n[2] && n[6]) || (n[0] && n[4] && n[6]);
+          if (!keep) toClear.push(y * width + x);
+        }
+      }
+      for (const p of toClear) pixels[p] = 0;
+      if (toClear.length > 0) changed = true;
+    }
+  }
+  return pixels;
+};
+
+/**
+ * Approximates the distance from every mask pixel to the nearest pixel outside the mask with
+ * a two-pass chamfer transform. Pixels on the mask's edge get 1, pixels outside get 0.
+ */
+const distanceTransform = (mask: Uint8Array, width: number, height: number): Float32Array => {
+  const dist = new Float32Array(mask.length);
+  for (let p = 0; p < mask.length; p++) dist[p] = mask[p] ? Infinity : 0;
+  // Everything beyond the image border counts as outside.
+  const get = (x: number, y: number) => (x < 0 || y < 0 || x >= width || y >= height ? 0 : dist[y * width + x]);
+  const D = Math.SQRT2;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (mask[p]) dist[p] = Math.min(dist[p], get(x - 1, y) + 1, get(x, y - 1) + 1, get(x - 1, y - 1) + D, get(x + 1, y - 1) + D);
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const p = y * width + x;
+      if (mask[p]) dist[p] = Math.min(dist[p], get(x + 1, y) + 1, get(x, y + 1) + 1, get(x + 1, y + 1) + D, get(x - 1, y + 1) + D);
+    }
+  }
+  return dist;
+};
+
+/**
+ * Splits a skeleton into chains of pixel indices that run between end points and junctions.
+ * Closed loops repeat their first pixel at the end; isolated pixels become two-point chains.
+ */
+const traceSkeleton = (skeleton: Uint8Array, width: number, height: number): number[][] => {
+  const isSet = (x: number, y: number) => x >= 0 && y >= 0 && x < width && y < height && skeleton[y * width + x] === 1;
+  // Diagonal steps are only links when no orthogonal pixel joins the two already, so the
+  // small staircase triangles thinning leaves behind do not turn into junctions.
+  const neighbours = (p: number): number[] => {
+    const x = p % width;
+    const y = (p - x) / width;
+    const result: number[] = [];
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if ((dx === 0 && dy === 0) || !isSet(x + dx, y + dy)) continue;
+        if (dx !== 0 && dy !== 0 && (isSet(x + dx, y) || isSet(x, y + dy))) continue;
+        result.push((y + dy) * width + x + dx);
+      }
+    }
+    return result;
+  };
+
+  const visited = new Set<number>();
+  const edgeKey = (a: number, b: number) => Math.min(a, b) * skeleton.length + Math.max(a, b);
+  const walk = (start: number, first: number): number[] => {
+    const chain = [start];
+    let prev = start;
+    let current = first;
+    for (;;) {
+      visited.add(edgeKey(prev, current));
+      chain.push(current);
+      if (current === start) return chain;
+      const links = neighbours(current);
+      if (links.length !== 2) return chain;
+      const next = links[0] === prev ? links[1] : links[0];
+      if (visited.has(edgeKey(current, next))) return chain;
+      prev = current;
+      current = next;
+    }
+  };
+
+  const chains: number[][] = [];
+  // Chains starting at end points and junctions first, then what is left are plain loops.
+  for (const loopsOnly of [false, true]) {
+    for (let p = 0; p < skeleton.length; p++) {
+      if (!skeleton[p]) continue;
+      const links = neighbours(p);
+      if ((links.length === 2) !== loopsOnly) continue;
+      if (links.length === 0) chains.push([p, p]);
+      for (const q of links) {
+        if (!visited.has(edgeKey(p, q))) chains.push(walk(p, q));
+      }
+    }
+  }
+  return chains;
+};
+
+/**
+ * Traces the centerlines of a mask as open polylines through pixel centers and estimates the
+ * line width from the distance transform along the skeleton.
+ */
+const traceCenterlines = (imageData: RasterImage): { strokes: Path[]; strokeWidth: number } => {
+  const { width, height } = imageData;
+  const mask = maskToBinary(imageData);
+  const skeleton = skeletonize(mask, width, height);
+  const dist = distanceTransform(mask, width, height);
+
+  // Zhang-Suen erases 2x2 blocks completely; keep a dot at the deepest pixel of any blob that
+  // lost its whole skeleton.
+  const seen = new Uint8Array(mask.length);
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || seen[start]) continue;
+    const stack = [start];
+    seen[start] = 1;
+    let deepest = start;
+    let hasSkeleton = false;
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      if (skeleton[p]) hasSkeleton = true;
+      if (dist[p] > dist[deepest]) deepest = p;
+      const x = p % width;
+      const y = (p - x) / width;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+          const q = ny * width + nx;
+          if (mask[q] && !seen[q]) {
+            seen[q] = 1;
+            stack.push(q);
+          }
+        }
+      }
+    }
+    if (!hasSkeleton) skeleton[deepest] = 1;
+  }
+
+  const distances: number[] = [];
+  for (let p = 0; p < skeleton.length; p++) {
+    if (skeleton[p]) distances.push(dist[p]);
+  }
+  if (distances.length === 0) return { strokes: [], strokeWidth: 0 };
+  distances.sort((a, b) => a - b);
+  // A line n pixels wide has its center about (n + 1) / 2 pixels from the outside.
+  const strokeWidth = Math.max(1, 2 * distances[Math.floor(distances.length / 2)] - 1);
+
+  const chains = traceSkeleton(skeleton, width, height);
+  // How many chains end at each pixel: 1 at a free end, 3 or more at a junction.
+  const endCounts = new Map<number, number>();
+  for (const chain of chains) {
+    for (const end of [chain[0], chain[chain.length - 1]]) endCounts.set(end, (endCounts.get(end) ?? 0) + 1);
+  }
+  const junctionCount = (p: number) => endCounts.get(p) ?? 0;
+  const strokes = chains
+    // Thinning grows short spurs toward the corners of thick lines; drop side branches that
+    // are no longer than the line is wide.
+    .filter(chain => {
+      if (chain.length > strokeWidth || chain[0] === chain[chain.length - 1]) return true;
+      const startCount = junctionCount(chain[0]);
+      const endCount = junctionCount(chain[chain.length - 1]);
+      return !((startCount === 1 && endCount >= 3) || (endCount === 1 && startCount >= 3));
+    })
+    .map(chain => chain.map(p => ({ x: (p % width) + 0.5, y: Math.floor(p / width) + 0.5 })));
+  return { strokes, strokeWidth };
+};
+
+
+type CubicBezier = [Point, Point, Point, Point];
+
+const vAdd = (a: Point, b: Point): Point => ({ x: a.x + b.x, y: a.y + b.y });
+const vSub = (a: Point, b: Point): Point => ({ x: a.x - b.x, y: a.y - b.y });
+const vScale = (a: Point, s: number): Point => ({ x: a.x * s, y: a.y * s });
+const vDot = (a: Point, b: Point): number => a.x * b.x + a.y * b.y;
+const vDist = (a: Point, b: Point): number => Math.hypot(a.x - b.x, a.y - b.y);
+const vNormalize = (a: Point): Point => {
+    const len = Math.hypot(a.x, a.y);
+    return len > 0 ? { x: a.x / len, y: a.y / len } : { x: 0, y: 0 };
+};
+
+/**
+ * Evaluates a cubic Bezier curve at parameter t.
+ */
+const bezierPoint = (bez: CubicBezier, t: number): Point => {
+    const mt = 1 - t;
+    const b0 = mt * mt * mt;
+    const b1 = 3 * mt * mt * t;
+    const b2 = 3 * mt * t * t;
+    const b3 = t * t * t;
+    return {
+        x: bez[0].x * b0 + bez[1].x * b1 + bez[2].x * b2 + bez[3].x * b3,
+        y: bez[0].y * b0 + bez[1].y * b1 + bez[2].y * b2 + bez[3].y * b3,
+    };
+};
+
+/**
+ * Returns the distance from a point to the segment between a and b.
+ */
+const vSegmentDistance = (p: Point, a: Point, b: Point): number => {
+    const ab = vSub(b, a);
+    const lengthSq = vDot(ab, ab);
+    const t = lengthSq > 0 ? Math.max(0, Math.min(1, vDot(vSub(p, a), ab) / lengthSq)) : 0;
+    return vDist(p, vAdd(a, vScale(ab, t)));
+};
+
+/**
+ * Returns how far along the contour, on either side, corner detection looks. Smoothing before
+ * tracing rounds a corner off over about its radius on each side, and over a shorter span a
+ * rounded corner never turns sharply enough to count.
+ */
+const getCornerWindow = (smoothingRadius: number): number => Math.max(4, 2 * smoothingRadius + 2);
+
+// How far the straight stretches of a contour may stray from the polygon used to find corners.
+const CORNER_POLYGON_TOLERANCE = 1;
+
+// A rounded-off turn sharper than this is two corners, like the ends of a thin bar, not one.
+const MAX_CORNER_TURN = (160 * Math.PI) / 180;
+
+// A detected corner: its tip, and how many contour points on either side fall inside the rounded
+// part that the tip replaces.
+type Corner = { index: number; point: Point; before: number; after: number };
+
+/**
+ * Walks a given distance along a contour from point i, forward (direction 1) or backward (-1).
+ * @returns The point reached, interpolated between vertices, and the number of vertices passed;
+ *   or null if an open run ends first.
+ */
+const walkAlong = (points: Path, i: number, distance: number, direction: 1 | -1, closed: boolean): { point: Point; steps: number } | null => {
+    const n = points.length;
+    let travelled = 0;
+    let previous = points[i];
+    for (let steps = 1; steps <= n; steps++) {
+        const j = i + direction * steps;
+        if (!closed && (j < 0 || j >= n)) return null;
+        const next = points[((j % n) + n) % n];
+        const step = vDist(previous, next);
+        if (step > 0 && travelled + step >= distance) {
+            return { point: vAdd(previous, vScale(vSub(next, previous), (distance - travelled) / step)), steps };
+        }
+        travelled += step;
+        previous = next;
+    }
+    return null;
+};
+
+/**
+ * Fits a line through the contour points from index i to j, wrapping around, leaving out a
+ * quarter at each end where the neighbouring corners round it off.
+ * @returns A point on the line and its direction, pointing from i towards j.
+ */
+const fitStretchLine = (points: Path, i: number, j: number): { point: Point; direction: Point } => {
+    const n = points.length;
+    const count = ((j - i + n) % n) + 1;
+    const trim = Math.floor(count / 4);
+    const stretch: Path = [];
+    for (let k = trim; k < count - trim; k++) stretch.push(points[(i + k) % n]);
+    const centre = vScale(stretch.reduce((sum, p) => vAdd(sum, p), { x: 0, y: 0 }), 1 / stretch.length);
+    let xx = 0;
+    let xy = 0;
+    let yy = 0;
+    for (const p of stretch) {
+        const d = vSub(p, centre);
+        xx += d.x * d.x;
+        xy += d.x * d.y;
+        yy += d.y * d.y;
+    }
+    // The principal axis of the points' spread.
+    const angle = Math.atan2(2 * xy, xx - yy) / 2;
+    const axis = { x: Math.cos(angle), y: Math.sin(angle) };
+    return { point: centre, direction: vDot(axis, vSub(points[j], points[i])) < 0 ? vScale(axis, -1) : axis };
+};
+
+/**
+ * Finds sharp corners. The contour is first reduced to a polygon of its straight stretches; a
+ * corner the tracing blur rounded off shows up there as a few vertices joined by short edges,
+ * which are grouped and replaced by the point where the straight parts on either side meet. A
+ * group only counts when the contour also turns sharply over the window around it, so small
+ * circles, whose polygons are coarse, keep their curves.
+ * @param points The contour.
+ * @param thresholdDegrees The minimum turning angle that counts as a corner.
+ * @param maxWindow The distance along the contour to look on either side (see getCornerWindow).
+ * @param closed Whether the contour wraps around; on an open run, points closer than the window
+ *   to either end are never corners.
+ * @returns The corners in ascending index order.
+ */
+const detectCorners = (points: Path, thresholdDegrees: number, maxWindow: number, closed = true): Corner[] => {
+    const n = points.length;
+    if (n < 5) return [];
+    let perimeter = closed ? vDist(points[n - 1], points[0]) : 0;
+    for (let i = 1; i < n; i++) perimeter += vDist(points[i - 1], points[i]);
+    // Small shapes get a shorter window so their sides still have room for one.
+    const window = Math.max(2, Math.min(maxWindow, perimeter / 8));
+    const threshold = (thresholdDegrees * Math.PI) / 180;
+
+    const indexOf = new Map(points.map((p, i) => [p, i]));
+    const polygon = simplifyPath(closed ? [...points, points[0]] : points, CORNER_POLYGON_TOLERANCE).map(p => indexOf.get(p)!);
+    if (closed) polygon.pop();
+    const m = polygon.length;
+    if (m < 3) return [];
+    const vertex = (k: number) => points[polygon[(k + m) % m]];
+    const first = closed ? 0 : 1;
+    const last = closed ? m - 1 : m - 2;
+
+    // Each group is a run of vertices, from start for count vertices, with their summed signed turn
+    // and the length of the edges between them.
+    const groups: { start: number; count: number; turn: number; length: number }[] = [];
+    const groupOf: number[] = [];
+    for (let k = first; k <= last; k++) {
+        const v1 = vSub(vertex(k), vertex(k - 1));
+        const v2 = vSub(vertex(k + 1), vertex(k));
+        groupOf[k] = groups.length;
+        groups.push({ start: k, count: 1, turn: Math.atan2(v1.x * v2.y - v1.y * v2.x, vDot(v1, v2)), length: 0 });
+    }
+    const edges: { k: number; length: number }[] = [];
+    for (let k = first; k < (closed ? m : last); k++) {
+        edges.push({ k, length: vDist(vertex(k), vertex(k + 1)) });
+    }
+    // Join across the shortest edges first, so the two ends of a rounded rectangle's short side
+    // each become their own corner instead of merging into one U-turn.
+    edges.sort((a, b) => a.length - b.length);
+    for (const { k, length } of edges) {
+        if (length >= window) break;
+        const a = groups[groupOf[k]];
+        const b = groups[groupOf[(k + 1) % m]];
+        const turn = a.turn + b.turn;
+        // Either winding works: only the turns' signs have to agree, not be positive.
+        if (a === b || a.turn * b.turn <= 0 || Math.abs(turn) > MAX_CORNER_TURN || a.length + length + b.length > window) continue;
+        a.count += b.count;
+        a.turn = turn;
+        a.length += length + b.length;
+        for (let j = 0; j < b.count; j++) groupOf[(b.start + j) % m] = groupOf[k];
+        b.count = 0;
+    }
+
+    const corners: Corner[] = [];
+    for (const group of groups) {
+        if (group.count === 0 || Math.abs(group.turn) < threshold) continue;
+        const startIndex = polygon[group.start % m];
+        const endIndex = polygon[(group.start + group.count - 1) % m];
+        const span = (endIndex - startIndex + n) % n;
+        const index = (startIndex + Math.round(span / 2)) % n;
+
+        // Measured from the group's ends, so a wide rounding (as on the inside of a hole, where the
+        // tracer cuts the corner by an extra pixel) does not eat into the window.
+        const behind = walkAlong(points, startIndex, window, -1, closed);
+        const ahead = walkAlong(points, endIndex, window, 1, closed);
+        if (!behind || !ahead) continue;
+        const v1 = vNormalize(vSub(points[startIndex], behind.point));
+        const v2 = vNormalize(vSub(ahead.point, points[endIndex]));
+        if (Math.acos(Math.max(-1, Math.min(1, vDot(v1, v2)))) < threshold) continue;
+
+        // The tip is where the straight stretches leading into and out of the group meet.
+        const incoming = fitStretchLine(points, polygon[(group.start - 1 + m) % m], startIndex);
+        const outgoing = fitStretchLine(points, endIndex, polygon[(group.start + group.count) % m]);
+        const d1 = incoming.direction;
+        const d2 = outgoing.direction;
+        const offset = vSub(outgoing.point, incoming.point);
+        const cross = d1.x * d2.y - d1.y * d2.x;
+        if (Math.abs(cross) < 0.1) continue;
+        const tip = vAdd(incoming.point, vScale(d1, (offset.x * d2.y - offset.y * d2.x) / cross));
+        // A tip far outside the contour means the group was not a rounded corner, for example the
+        // side of an octagon that a heavily smoothed small square has become.
+        if (vDist(tip, points[index]) > window / 2) continue;
+        corners.push({ index, point: tip, before: (index - startIndex + n) % n, after: (endIndex - index + n) % n });
+    }
+    return corners.sort((a, b) => a.index - b.index);
+};
+
+/**
+ * Assigns a parameter value to each point based on the relative distance along the polyline.
+ */
+const chordLengthParameterize = (points: Path): number[] => {
+    const u = [0];
+    for (let i = 1; i < points.length; i++) {
+        u.push(u[i - 1] + vDist(points[i], points[i - 1]));
+    }
+    const total = u[u.length - 1];
+    return total > 0 ? u.map(v => v / total) : u.map((_, i) => i / (points.length - 1));
+};
+
+/**
+ * Solves the least-squares problem for the two inner control points of a cubic Bezier
+ * whose end points and end tangent directions are fixed.
+ */
+const generateBezier = (points: Path, u: number[], tHat1: Point, tHat2: Point): CubicBezier => {
+    const first = points[0];
+    const last = points[points.length - 1];
+    const c = [[0, 0], [0, 0]];
+    const x = [0, 0];
+
+    for (let i = 0; i < points.length; i++) {
+        const t = u[i];
+        const mt = 1 - t;
+        const a1 = vScale(tHat1, 3 * mt * mt * t);
+        const a2 = vScale(tHat2, 3 * mt * t * t);
+        c[0][0] += vDot(a1, a1);
+        c[0][1] += vDot(a1, a2);
+        c[1][1] += vDot(a2, a2);
+        const shortfall = vSub(points[i], bezierPoint([first, first, last, last], t));
+        x[0] += vDot(a1, shortfall);
+        x[1] += vDot(a2, shortfall);
+    }
+    c[1][0] = c[0][1];
+
+    const detC0C1 = c[0][0] * c[1][1] - c[1][0] * c[0][1];
+    const detC0X = c[0][0] * x[1] - c[1][0] * x[0];
+    const detXC1 = x[0] * c[1][1] - x[1] * c[0][1];
+    const alphaL = detC0C1 === 0 ? 0 : detXC1 / detC0C1;
+    const alphaR = detC0C1 === 0 ? 0 : detC0X / detC0C1;
+
+    // Fall back to the Wu/Barsky heuristic when the solution is degenerate, or when handles longer
+    // than the chord would swing the curve out past the points it fits.
+    const segLength = vDist(first, last);
+    const epsilon = 1e-6 * segLength;
+    if (alphaL < epsilon || alphaR < epsilon || alphaL > segLength || alphaR > segLength) {
+        const dist = segLength / 3;
+        return [first, vAdd(first, vScale(tHat1, dist)), vAdd(last, vScale(tHat2, dist)), last];
+    }
+    return [first, vAdd(first, vScale(tHat1, alphaL)), vAdd(last, vScale(tHat2, alphaR)), last];
+};
+
+/**
+ * Improves the parameter of each point with a single Newton-Raphson step towards
+ * the closest point on the curve.
+ */
+const reparameterize = (bez: CubicBezier, points: Path, u: number[]): number[] => {
+    const d1: Point[] = [0, 1, 2].map(i => vScale(vSub(bez[i + 1], bez[i]), 3));
+    const d2: Point[] = [0, 1].map(i => vScale(vSub(d1[i + 1], d1[i]), 2));
+
+    return points.map((p, i) => {
+        const t = u[i];
+        const mt = 1 - t;
+        const q = bezierPoint(bez, t);
+        const q1 = vAdd(vAdd(vScale(d1[0], mt * mt), vScale(d1[1], 2 * mt * t)), vScale(d1[2], t * t));
+        const q2 = vAdd(vScale(d2[0], mt), vScale(d2[1], t));
+        const diff = vSub(q, p);
+        const denominator = vDot(q1, q1) + vDot(diff, q2);
+        if (denominator === 0) return t;
+        return Math.max(0, Math.min(1, t - vDot(diff, q1) / denominator));
+    });
+};
+
+/**
+ * Returns the largest squared distance between the points and the curve, and where it occurs.
+ */
+const computeMaxError = (points: Path, bez: CubicBezier, u: number[]): { maxError: number; splitPoint: number } => {
+    let maxError = 0;
+    let splitPoint = Math.floor(points.length / 2);
+    for (let i = 1; i < points.length - 1; i++) {
+        const p = bezierPoint(bez, u[i]);
+        const dist = (p.x - points[i].x) ** 2 + (p.y - points[i].y) ** 2;
+        if (dist >= maxError) {
+            maxError = dist;
+            splitPoint = i;
+        }
+    }
+    return { maxError, splitPoint };
+};
+
+/**
+ * Checks the whole curve against the polyline it replaces, not just at the fitted points, so that
+ * bulges and overshoot between them are caught. Every sampled point must lie within the error of
+ * the polyline and inside the points' bounding box grown by half the error.
+ */
+const curveStaysClose = (points: Path, bez: CubicBezier, error: number): boolean => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const p of points) {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }
+    const slack = error / 2;
+    minX -= slack; maxX += slack; minY -= slack; maxY += slack;
+    const samples = Math.max(8, points.length * 2);
+    for (let s = 1; s < samples; s++) {
+        const p = bezierPoint(bez, s / samples);
+        if (p.x < minX || p.x > maxX || p.y < minY || p.y > maxY) return false;
+        let nearest = Infinity;
+        for (let i = 1; i < points.length && nearest >= error; i++) {
+            nearest = Math.min(nearest, vSegmentDistance(p, points[i - 1], points[i]));
+        }
+        if (nearest >= error) return false;
+    }
+    return true;
+};
+
+/**
+ * Recursively fits cubic Bezier segments to an open run of points (Schneider's algorithm).
+ * @param points The points to fit; the first and last points are kept exactly.
+ * @param tHat1 Unit tangent leaving the first point.
+ * @param tHat2 Unit tangent leaving the last point, pointing back into the run.
+ * @param error The maximum allowed distance between the points and the curve.
+ * @param out Receives the fitted segments in order.
+ */
+const fitCubic = (points: Path, tHat1: Point, tHat2: Point, error: number, out: CubicBezier[]): void => {
+    const first = points[0];
+    const last = points[points.length - 1];
+
+    if (points.length === 2) {
+        const dist = vDist(first, last) / 3;
+        out.push([first, vAdd(first, vScale(tHat1, dist)), vAdd(last, vScale(tHat2, dist)), last]);
+        return;
+    }
+
+    // A run that barely strays from its chord is written as a straight segment.
+    const chordDeviation = points.reduce((max, p) => Math.max(max, vSegmentDistance(p, first, last)), 0);
+    if (chordDeviation <= error / 4) {
+        const chord = vSub(last, first);
+        out.push([first, vAdd(first, vScale(chord, 1 / 3)), vAdd(first, vScale(chord, 2 / 3)), last]);
+        return;
+    }
+
+    const squaredError = error * error;
+    let u = chordLengthParameterize(points);
+    let bez = generateBezier(points, u, tHat1, tHat2);
+    let { maxError, splitPoint } = computeMaxError(points, bez, u);
+    const fits = () => maxError < squaredError && curveStaysClose(points, bez, error);
+
+    if (fits()) {
+        out.push(bez);
+        return;
+    }
+
+    // If the fit is close, a few reparameterization passes usually bring it within bounds.
+    if (maxError < squaredError * 4) {
+        for (let i = 0; i < 4; i++) {
+            u = reparameterize(bez, points, u);
+            bez = generateBezier(points, u, tHat1, tHat2);
+            ({ maxError, splitPoint } = computeMaxError(points, bez, u));
+            if (fits()) {
+                out.push(bez);
+                return;
+            }
+        }
+    }
+
+    const tHatCenter = vNormalize(vSub(points[splitPoint - 1], points[splitPoint + 1]));
+    fitCubic(points.slice(0, splitPoint + 1), tHat1, tHatCenter, error, out);
+    fitCubic(points.slice(splitPoint), vScale(tHatCenter, -1), tHat2, error, out);
+};
+
+/**
+ * Estimates the unit tangent at an end of a run, looking a few points in to skip pixel noise.
+ */
+const estimateTangent = (from: Point, run: Path): Point => {
+    const lookahead = Math.min(3, run.length - 1);
+    const tangent = vNormalize(vSub(run[lookahead], from));
+    return tangent.x === 0 && tangent.y === 0 ? vNormalize(vSub(run[1], from)) : tangent;
+};
+
+/**
+ * Smooths the interior of a run with a [1, 2, 1] kernel, leaving the end points untouched
+ * so that corners stay where they were detected.
+ */
+const smoothRun = (run: Path): Path => {
+    if (run.length < 3) return run;
+    return run.map((p, i) => {
+        if (i === 0 || i === run.length - 1) return p;
+        return {
+            x: (run[i - 1].x + 2 * p.x + run[i + 1].x) / 4,
+            y: (run[i - 1].y + 2 * p.y + run[i + 1].y) / 4,
+        };
+    });
+};
+
+/**
+ * Removes consecutive duplicate points (including a closing duplicate of the first point).
+ */
+const dedupePath = (points: Path): Path => {
+    const result = points.filter((p, i) => i === 0 || p.x !== points[i - 1].x || p.y !== points[i - 1].y);
+    while (result.length > 1 && result[0].x === result[result.length - 1].x && result[0].y === result[result.length - 1].y) {
+        result.pop();
+    }
+    return result;
+};
+
+/**
+ * Fits a closed contour with cubic Bezier segments, splitting at detected corners so
+ * that they stay sharp while the runs between them become smooth curves.
+ * @param contour The closed contour (pixel coordinates).
+ * @param error The maximum allowed fitting error in pixels.
+ * @param cornerThreshold The minimum turning angle, in degrees, treated as a corner.
+ * @param cornerWindow The distance along the contour to look for corners (see getCornerWindow).
+ * @returns The fitted segments, or an empty array if the contour is too small.
+ */
+const fitContourCurves = (contour: Path, error: number, cornerThreshold: number, cornerWindow: number): CubicBezier[] => {
+    const points = dedupePath(contour);
+    const n = points.length;
+    if (n < 3) return [];
+
+    const corners = detectCorners(points, cornerThreshold, cornerWindow);
+    const segments: CubicBezier[] = [];
+
+    if (corners.length === 0) {
+        // A smooth closed loop: use the same tangent on both sides of the seam.
+        const run = smoothRun([...points, points[0]]);
+        const lookahead = Math.min(3, Math.floor(n / 2));
+        const tangent = vNormalize(vSub(points[lookahead], points[n - lookahead]));
+        fitCubic(run, tangent, vScale(tangent, -1), error, segments);
+        return segments;
+    }
+
+    for (let c = 0; c < corners.length; c++) {
+        const start = corners[c];
+        const end = corners[(c + 1) % corners.length];
+        const run: Path = [start.point];
+        const last = (end.index <= start.index ? end.index + n : end.index) - end.before;
+        for (let i = start.index + start.after + 1; i < last; i++) {
+            run.push(points[i % n]);
+        }
+        run.push(end.point);
+        const smoothed = smoothRun(run);
+        const tHat1 = estimateTangent(smoothed[0], smoothed);
+        const tHat2 = estimateTangent(smoothed[smoothed.length - 1], [...smoothed].reverse());
+        fitCubic(smoothed, tHat1, tHat2, error, segments);
+    }
+    return segments;
+};
+
+/**
+ * Checks whether a fitted cubic is close enough to its chord to be written as a straight line:
+ * both control points lie between the ends and within the tolerance of the chord.
+ */
+const isNearlyStraight = (bez: CubicBezier, tolerance: number): boolean => {
+    const [p0, c1, c2, p3] = bez;
+    const chord = vSub(p3, p0);
+    const lengthSq = vDot(chord, chord);
+    if (lengthSq === 0) return vDist(c1, p0) <= tolerance && vDist(c2, p0) <= tolerance;
+    return [c1, c2].every(c => {
+        const t = vDot(vSub(c, p0), chord) / lengthSq;
+        return t >= 0 && t <= 1 && vSegmentDistance(c, p0, p3) <= tolerance;
+    });
+};
+
+/**
+ * Approximates a cubic Bezier with one or more quadratic segments, subdividing until
+ * the midpoint approximation is within tolerance.
+ * @returns Pairs of [control point, end point] for successive quadratic segments.
+ */
+const cubicToQuadratics = (bez: CubicBezier, tolerance: number, depth = 0): [Point, Point][] => {
+    const [p0, c1, c2, p3] = bez;
+    const control = vScale(vSub(vScale(vAdd(c1, c2), 3), vAdd(p0, p3)), 0.25);
+    const deviation = vSub(vAdd(vSub(p3, vScale(c2, 3)), vScale(c1, 3)), p0);
+    const estimatedError = (Math.sqrt(3) / 36) * Math.hypot(deviation.x, deviation.y);
+
+    if (estimatedError <= tolerance || depth >= 4) {
+        return [[control, p3]];
+    }
+
+    // Split at t = 0.5 using de Casteljau's algorithm.
+    const m01 = vScale(vAdd(p0, c1), 0.5);
+    const m12 = vScale(vAdd(c1, c2), 0.5);
+    const m23 = vScale(vAdd(c2, p3), 0.5);
+    const m012 = vScale(vAdd(m01, m12), 0.5);
+    const m123 = vScale(vAdd(m12, m23), 0.5);
+    const mid = vScale(vAdd(m012, m123), 0.5);
+    return [
+        ...cubicToQuadratics([p0, m01, m012, mid], tolerance, depth + 1),
+        ...cubicToQuadratics([mid, m123, m23, p3], tolerance, depth + 1),
+    ];
+};
+
+/**
+ * Fits an open run of boundary points, such as a shared edge between two junctions, with cubic
+ * Bezier segments. The end points are kept exactly so that neighbouring edges still meet.
+ */
+const fitOpenCurves = (run: Path, error: number, cornerThreshold: number, cornerWindow: number): CubicBezier[] => {
+    const points = run.filter((p, i) => i === 0 || p.x !== run[i - 1].x || p.y !== run[i - 1].y);
+    const n = points.length;
+    if (n < 2) return [];
+
+    const corners = detectCorners(points, cornerThreshold, cornerWindow, false);
+    const splits: Corner[] = [
+        { index: 0, point: points[0], before: 0, after: 0 },
+        ...corners,
+        { index: n - 1, point: points[n - 1], before: 0, after: 0 },
+    ];
+    const segments: CubicBezier[] = [];
+    for (let c = 0; c + 1 < splits.length; c++) {
+        const [start, end] = [splits[c], splits[c + 1]];
+        const run = [start.point, ...points.slice(start.index + start.after + 1, end.index - end.before), end.point];
+        const smoothed = smoothRun(run);
+        const tHat1 = estimateTangent(smoothed[0], smoothed);
+        const tHat2 = estimateTangent(smoothed[smoothed.length - 1], [...smoothed].reverse());
+        fitCubic(smoothed, tHat1, tHat2, error, segments);
+    }
+    return segments;
+};
+
+
+export type Primitive =
+  | { type: 'circle'; cx: number; cy: number; r: number }
+  | { type: 'ellipse'; cx: number; cy: number; rx: number; ry: number; angle: number }
+  | { type: 'rect'; x: number; y: number; width: number; height: number; r: number }
+  | { type: 'line'; x1: number; y1: number; x2: number; y2: number; width: number }
+  | { type: 'polygon'; points: Path };
+
+/**
+ * Computes the centroid and principal axis of a set of points.
+ * @returns The mean point and the angle (radians) of the major axis.
+ */
+const principalAxis = (points: Path): { center: Point; angle: number } => {
+    let mx = 0, my = 0;
+    for (const p of points) { mx += p.x; my += p.y; }
+    mx /= points.length;
+    my /= points.length;
+    let sxx = 0, syy = 0, sxy = 0;
+    for (const p of points) {
+        const dx = p.x - mx;
+        const dy = p.y - my;
+        sxx += dx * dx;
+        syy += dy * dy;
+        sxy += dx * dy;
+    }
+    return { center: { x: mx, y: my }, angle: 0.5 * Math.atan2(2 * sxy, sxx - syy) };
+};
+
+/**
+ * Projects points onto a rotated frame and returns the extent along each axis.
+ */
+const projectExtents = (points: Path, origin: Point, angle: number) => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+    const projected = points.map(p => {
+        const dx = p.x - origin.x;
+        const dy = p.y - origin.y;
+        const u = dx * cos + dy * sin;
+        const v = -dx * sin + dy * cos;
+        minU = Math.min(minU, u); maxU = Math.max(maxU, u);
+        minV = Math.min(minV, v); maxV = Math.max(maxV, v);
+        return { x: u, y: v };
+    });
+    return { projected, minU, maxU, minV, maxV, cos, sin };
+};
+
+const fitLine = (points: Path, tolerance: number): Primitive | null => {
+    const { center, angle } = principalAxis(points);
+    const { minU, maxU, minV, maxV, cos, sin } = projectExtents(points, center, angle);
+    const length = maxU - minU;
+    const thickness = maxV - minV;
+    if (thickness > 2 * tolerance || length < 4 * Math.max(thickness, 1)) return null;
+    const midV = (minV + maxV) / 2;
+    const toWorld = (u: number): Point => ({
+        x: center.x + u * cos - midV * sin,
+        y: center.y + u * sin + midV * cos,
+    });
+    const start = toWorld(minU);
+    const end = toWorld(maxU);
+    return { type: 'line', x1: start.x, y1: start.y, x2: end.x, y2: end.y, width: Math.max(thickness, 1) };
+};
+
+// A fitted primitive together with the largest distance between it and the contour.
+type PrimitiveFit = { primitive: Primitive; error: number };
+
+// How much closer (pixels) a rectangle has to fit than a circle or ellipse to win. Pixel-grid
+// circles fit a fully rounded rectangle about as well as a circle, give or take this much.
+const ROUND_FIT_MARGIN = 0.2;
+
+/**
+ * Fits a circle with the algebraic (Kasa) least-squares method.
+ */
+const fitCircle = (points: Path, tolerance: number): PrimitiveFit | null => {
+    let sx = 0, sy = 0, sxx = 0, syy = 0, sxy = 0, sxz = 0, syz = 0, sz = 0;
+    const n = points.length;
+    for (const { x, y } of points) {
+        const z = x * x + y * y;
+        sx += x; sy += y; sxx += x * x; syy += y * y; sxy += x * y;
+        sxz += x * z; syz += y * z; sz += z;
+    }
+    // Solve [sxx sxy sx; sxy syy sy; sx sy n] * [D E F] = -[sxz syz sz]
+    const det = (m: number[][]) =>
+        m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+        m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+        m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0]);
+    const a = [[sxx, sxy, sx], [sxy, syy, sy], [sx, sy, n]];
+    const b = [-sxz, -syz, -sz];
+    const detA = det(a);
+    if (Math.abs(detA) < 1e-9) return null;
+    const solve = (col: number) => det(a.map((row, i) => row.map((v, j) => (j === col ? b[i] : v)))) / detA;
+    const D = solve(0), E = solve(1), F = solve(2);
+    const cx = -D / 2;
+    const cy = -E / 2;
+    const r = Math.sqrt(cx * cx + cy * cy - F);
+    if (!isFinite(r) || r < 2) return null;
+    let error = 0;
+    for (const p of points) {
+        error = Math.max(error, Math.abs(Math.hypot(p.x - cx, p.y - cy) - r));
+        if (error > tolerance) return null;
+    }
+    return { primitive: { type: 'circle', cx, cy, r }, error };
+};
+
+const fitEllipse = (points: Path, tolerance: number): PrimitiveFit | null => {
+    const { center, angle } = principalAxis(points);
+    const { minU, maxU, minV, maxV, cos, sin } = projectExtents(points, center, angle);
+    const rx = (maxU - minU) / 2;
+    const ry = (maxV - minV) / 2;
+    if (rx < 2 || ry < 2) return null;
+    const midU = (minU + maxU) / 2;
+    const midV = (minV + maxV) / 2;
+    const cx = center.x + midU * cos - midV * sin;
+    const cy = center.y + midU * sin + midV * cos;
+    const { projected } = projectExtents(points, { x: cx, y: cy }, angle);
+    let error = 0;
+    for (const { x: u, y: v } of projected) {
+        const k = Math.sqrt((u / rx) ** 2 + (v / ry) ** 2);
+        if (k === 0) return null;
+        // Radial approximation of the distance from the point to the ellipse.
+        error = Math.max(error, Math.abs(k - 1) * (Math.hypot(u, v) / k));
+        if (error > tolerance) return null;
+    }
+    return { primitive: { type: 'ellipse', cx, cy, rx, ry, angle: (angle * 180) / Math.PI }, error };
+};
+
+/**
+ * Fits an axis-aligned rectangle, searching for the corner radius that best matches the contour.
+ */
+const fitRect = (points: Path, tolerance: number): PrimitiveFit | null => {
+    let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+    for (const p of points) {
+        minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+        minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+    }
+    const hx = (maxX - minX) / 2;
+    const hy = (maxY - minY) / 2;
+    if (hx < 1 || hy < 1) return null;
+    const cx = minX + hx;
+    const cy = minY + hy;
+
+    // Signed distance to a rounded box centered at (cx, cy), given up once it exceeds `limit`.
+    const roundBoxError = (r: number, limit: number): number => {
+        let maxError = 0;
+        for (const p of points) {
+            const qx = Math.abs(p.x - cx) - (hx - r);
+            const qy = Math.abs(p.y - cy) - (hy - r);
+            const outside = Math.hypot(Math.max(qx, 0), Math.max(qy, 0));
+            const d = outside + Math.min(Math.max(qx, qy), 0) - r;
+            maxError = Math.max(maxError, Math.abs(d));
+            if (maxError > limit) break;
+        }
+        return maxError;
+    };
+
+    const maxRadius = Math.min(hx, hy);
+    const step = Math.max(0.5, maxRadius / 64);
+    let best: PrimitiveFit | null = null;
+    for (let r = 0; r <= maxRadius; r += step) {
+        const error = roundBoxError(r, best ? best.error : tolerance);
+        if (error <= tolerance && (!best || error < best.error)) {
+            best = { primitive: { type: 'rect', x: minX, y: minY, width: hx * 2, height: hy * 2, r }, error };
+        }
+    }
+    return best;
+};
+
+const fitPolygon = (points: Path, tolerance: number, maxVertices: number): Primitive | null => {
+    const simplified = simplifyPath([...points, points[0]], tolerance).slice(0, -1);
+    if (simplified.length < 3 || simplified.length > maxVertices) return null;
+    return { type: 'polygon', points: simplified };
+};
+
+/**
+ * Classifies a closed contour as the simplest geometric primitive that matches it
+ * within the given tolerance (in pixels).
+ * @param contour The closed contour to classify.
+ * @param tolerance The maximum allowed distance between the contour and the primitive.
+ * @returns The detected primitive, or null if the contour should stay a path.
+ */
+export const classifyContour = (contour: Path, tolerance: number): Primitive | null => {
+    const points = dedupePath(contour);
+    if (points.length < 4) return null;
+    const line = fitLine(points, tolerance);
+    if (line) return line;
+    // A small smoothed square also passes as a circle within the tolerance, so a round match
+    // loses to a rectangle that follows the contour clearly more closely.
+    const round = fitCircle(points, tolerance) ?? fitEllipse(points, tolerance);
+    const rect = fitRect(points, tolerance);
+    if (round && (!rect || rect.error > round.error - ROUND_FIT_MARGIN)) return round.primitive;
+    return rect?.primitive ?? fitPolygon(points, tolerance, 12);
+};
+
+/**
+ * Splits the contours of a shape into those that can be emitted as standalone primitives
+ * and those that must stay in the path. Only filled contours without nested holes qualify,
+ * since a standalone element cannot cut a hole.
+ * @returns The primitives and the indices of the contours that remain paths.
+ */
+const extractPrimitives = (shape: TracedShape, tolerance: number): { primitives: Primitive[]; remaining: number[] } => {
+    const primitives: Primitive[] = [];
+    const remaining: number[] = [];
+
+    shape.contours.forEach((contour, i) => {
+        const node = shape.hierarchy[i];
+        const primitive = !node.isHole && node.children.length === 0 ? classifyContour(contour, tolerance) : null;
+        if (primitive) {
+            primitives.push(primitive);
+        } else {
+            remaining.push(i);
+        }
+    });
+    return { primitives, remaining };
+};
+
+/**
+ * Serializes a primitive as an SVG element.
+ * @param primitive The primitive to serialize.
+ * @param fillAttrs Fill and stroke attributes for closed shapes.
+ * @param hexColor The shape color, used as the stroke of lines.
+ * @param opacity The shape opacity, used as the stroke opacity of lines.
+ */
+const primitiveToSvgElement = (primitive: Primitive, fillAttrs: string, hexColor: string, opacity: string): string => {
+    const f = (n: number) => n.toFixed(1);
+    switch (primitive.type) {
+        case 'circle':
+            return `<circle ${fillAttrs} cx="${f(primitive.cx)}" cy="${f(primitive.cy)}" r="${f(primitive.r)}"/>`;
+        case 'ellipse': {
+            const { cx, cy, rx, ry, angle } = primitive;
+            const transform = Math.abs(angle) > 0.5 ? ` transform="rotate(${f(angle)} ${f(cx)} ${f(cy)})"` : '';
+            return `<ellipse ${fillAttrs} cx="${f(cx)}" cy="${f(cy)}" rx="${f(rx)}" ry="${f(ry)}"${transform}/>`;
+        }
+        case 'rect': {
+            const { x, y, width, height, r } = primitive;
+            const corner = r > 0 ? ` rx="${f(r)}" ry="${f(r)}"` : '';
+            return `<rect ${fillAttrs} x="${f(x)}" y="${f(y)}" width="${f(width)}" height="${f(height)}"${corner}/>`;
+        }
+        case 'line': {
+            const { x1, y1, x2, y2, width } = primitive;
+            return `<line stroke="${hexColor}" stroke-opacity="${opacity}" stroke-width="${f(width)}" x1="${f(x1)}" y1="${f(y1)}" x2="${f(x2)}" y2="${f(y2)}"/>`;
+        }
+        case 'polygon':
+            return `<polygon ${fillAttrs} points="${primitive.points.map(p => `${f(p.x)},${f(p.y)}`).join(' ')}"/>`;
+    }
+};
+
+
+const toHex = (c: number) => c.toString(16).padStart(2, '0');
+
+/**
+ * Splits a shape's contours into primitives and path groups, the way generateSvg writes them.
+ * Each group becomes one path: all contours together, or one outline with its holes.
+ * @param keepContours Skip primitive detection, for contours that must stay as traced.
+ */
+const groupShapeContours = (
+    shape: TracedShape,
+    options: GenerateSvgOptions,
+    keepContours: boolean,
+): { primitives: Primitive[]; groups: number[][] } => {
+    const { detectPrimitives = false, primitiveTolerance = 1, holeMode = 'evenodd' } = options;
+    const { contours, hierarchy } = shape;
+    // A standalone primitive would no longer line up with its neighbours' shared edges.
+    const { primitives, remaining } = detectPrimitives && !keepContours
+        ? extractPrimitives(shape, primitiveTolerance)
+        : { primitives: [], remaining: contours.map((_, i) => i) };
+
+    if (holeMode !== 'components') {
+        return { primitives, groups: remaining.length > 0 ? [remaining] : [] };
+    }
+    const remainingSet = new Set(remaining);
+    const groups = remaining
+        .filter(i => !hierarchy[i].isHole)
+        .sort((a, b) => hierarchy[a].depth - hierarchy[b].depth)
+        .map(i => [i, ...hierarchy[i].children.filter(child => remainingSet.has(child))]);
+    return { primitives, groups };
+};
+
+/**
+ * Runs the pixel pipeline (quantize, mask, blur, threshold, trace) on raw image data.
+ * This is the computationally expensive part; the browser runs it inside the tracing worker
+ * and the CLI calls it directly.
+ * @param imageData The decoded image.
+ * @param options Tracing and palette settings.
+ * @param onProgress Called after quantization and after each color layer is traced.
+ */
+export const traceImageData = (
+    imageData: RasterImage,
+    options: TraceOptions = {},
+    onProgress?: (progress: TraceProgress) => void,
+): TracedData => {
+    const {
+        mode = DEFAULT_TRACE_OPTIONS.mode,
+        tracingTolerance = DEFAULT_TRACE_OPTIONS.tracingTolerance,
+        quantizer = DEFAULT_TRACE_OPTIONS.quantizer,
+        maxColors = DEFAULT_TRACE_OPTIONS.maxColors,
+    } = options;
+    // Centerlines are thinned from plain per-color masks; layering and the contour tracer only
+    // apply to outlines, and a silhouette has no other colors to layer against.
+    const layering = mode === 'outline' ? options.layering ?? DEFAULT_TRACE_OPTIONS.layering : 'separate';
+    const tracer = mode === 'centerline' ? 'moore' : options.tracer ?? DEFAULT_TRACE_OPTIONS.tracer;
+    if (mode === 'silhouette') {
+      return traceSilhouette(imageData, options, tracer, onProgress);
+    }
+    const { palette, labels } = quantizeImage(imageData, quantizer, maxColors);
+    // Traced in final paint order (largest first) so stacked masks can include later layers.
+    // Pixel-exact tracing keeps every pixel, since a single one can be a detail in a sprite.
+    const minPixelCount = tracer === 'pixel-edges' ? 1 : MIN_PIXEL_COUNT;
+    const colors = palette.filter(c => c.count >= minPixelCount).sort((a, b) => b.count - a.count);
+    
+    if (colors.length === 0) {
+      throw new Error("No significant colors found in the image. Try an image with a different background.");
+    }
+
+    if (layering === 'shared') {
+      return traceSharedRegions(imageData, palette, labels, colors, tracingTolerance, onProgress);
+    }
+    
+    const allShapes: TracedShape[] = [];
+    onProgress?.({ completedLayers: 0, totalLayers: colors.length });
+    // Palette entries too small to trace are drawn by nobody, so stacked layers cover them too.
+    const droppedIndices = palette.map((c, i) => i).filter(i => !colors.includes(palette[i]));
+
+    for (const [layerIndex, color] of colors.entries()) {
+      // A stacked layer also covers everything drawn above it, so no gaps open up between them.
+      const maskIndices = layering === 'stacked'
+        ? new Set([...colors.slice(layerIndex).map(c => palette.indexOf(c)), ...droppedIndices])
+        : new Set([palette.indexOf(color)]);
+      const mask = smoothMask(createColorMask(imageData, labels, maskIndices), tracingTolerance, tracer);
+      
+      if (mode === 'centerline') {
+        const { strokes, strokeWidth } = traceCenterlines(mask);
+        if (strokes.length > 0) {
+          allShapes.push({ color, contours: [], hierarchy: [], area: color.count, strokes, strokeWidth });
+        }
+        onProgress?.({ completedLayers: layerIndex + 1, totalLayers: colors.length });
+        continue;
+      }
+
+      const contours = tracer === 'marching-squares'
+        ? traceMarchingSquares(mask, 128)
+        : tracer === 'pixel-edges' ? tracePixelEdges(mask) : traceContours(mask);
+      
+      if (contours.some(c => c.length > 1)) {
+          allShapes.push({ color, contours, hierarchy: buildContourHierarchy(contours), area: color.count });
+      }
+      onProgress?.({ completedLayers: layerIndex + 1, totalLayers: colors.length });
+    }
+  
+    if (allShapes.length === 0) {
+        throw new Error("Could not trace any vector paths from the image.");
+    }
+    
+    // Sort shapes by area in descending order to ensure correct z-index layering in SVG
+    allShapes.sort((a, b) => b.area - a.area);
+
+    return {
+        width: imageData.width,
+        height: imageData.height,
+        shapes: allShapes,
+        ...(tracer === 'pixel-edges' ? { pixelEdges: true } : { smoothingRadius: Math.round(tracingTolerance) }),
+    };
+};
+
+/**
+ * Silhouette variant of the tracing pipeline: one shape from the thresholded luminance. It is
+ * traced in black; generateSvg fills it with the chosen silhouette color.
+ */
+const traceSilhouette = (
+    imageData: RasterImage,
+    options: TraceOptions,
+    tracer: ContourTracer,
+    onProgress?: (progress: TraceProgress) => void,
+): TracedData => {
+    const {
+        tracingTolerance = DEFAULT_TRACE_OPTIONS.tracingTolerance,
+        threshold = DEFAULT_TRACE_OPTIONS.threshold,
+        invert = DEFAULT_TRACE_OPTIONS.invert,
+    } = options;
+    onProgress?.({ completedLayers: 0, totalLayers: 1 });
+    const { mask, count } = createSilhouetteMask(imageData, threshold, invert);
+    if (count === 0) {
+        throw new Error("No pixels fall on the traced side of the threshold. Adjust the threshold or invert it.");
+    }
+    const smoothed = smoothMask(mask, tracingTolerance, tracer);
+    const contours = tracer === 'marching-squares'
+      ? traceMarchingSquares(smoothed, 128)
+      : tracer === 'pixel-edges' ? tracePixelEdges(smoothed) : traceContours(smoothed);
+    if (!contours.some(c => c.length > 1)) {
+        throw new Error("Could not trace any vector paths from the image.");
+    }
+    onProgress?.({ completedLayers: 1, totalLayers: 1 });
+    return {
+        width: imageData.width,
+        height: imageData.height,
+        shapes: [{ color: { r: 0, g: 0, b: 0, a: 255 }, contours, hierarchy: buildContourHierarchy(contours), area: count }],
+        silhouette: true,
+        ...(tracer === 'pixel-edges' ? { pixelEdges: true } : { smoothingRadius: Math.round(tracingTolerance) }),
+    };
+};
+
+/**
+ * Shared-boundary variant of the tracing pipeline: the image is split into regions once and
+ * each boundary between two regions becomes a single edge used by both neighbours.
+ */
+const traceSharedRegions = (
+    imageData: RasterImage,
+    palette: PaletteColor[],
+    labels: Int32Array,
+    colors: PaletteColor[],
+    tracingTolerance: number,
+    onProgress?: (progress: TraceProgress) => void,
+): TracedData => {
+    const { width, height } = imageData;
+    onProgress?.({ completedLayers: 0, totalLayers: colors.length });
+
+    let regions = buildRegionLabels(labels, palette, colors);
+    if (tracingTolerance > 0) {
+      regions = smoothRegionLabels(regions, width, height, Math.round(tracingTolerance));
+    }
+    const edges = traceSharedEdges(regions, width, height);
+    const edgePaths = edges.map(edge => edge.points);
+
+    const shapes: TracedShape[] = [];
+    colors.forEach((color, region) => {
+      const loops = assembleRegionLoops(edges, region);
+      const contours = loops.map(loop => loopToPath(loop, edgePaths));
+      if (contours.length > 0) {
+        shapes.push({ color, contours, hierarchy: buildContourHierarchy(contours), area: color.count, loops });
+      }
+      onProgress?.({ completedLayers: region + 1, totalLayers: colors.length });
+    });
+
+    if (shapes.length === 0) {
+        throw new Error("Could not trace any vector paths from the image.");
+    }
+    return { width, height, shapes, edges: edgePaths, smoothingRadius: Math.round(tracingTolerance) };
+};
+
+// Geometry of generated output, written out by generateSvg and by the PDF, EPS and DXF writers
+// (see exportService). Coordinates are in pixels with the y axis pointing down; curves are always
+// cubic, whatever the SVG curve type.
+export type DrawingSegment =
+  | { type: 'line'; to: Point }
+  | { type: 'cubic'; c1: Point; c2: Point; to: Point };
+
+export type DrawingSubpath = { start: Point; segments: DrawingSegment[]; closed: boolean };
+
+export type DrawingItem = {
+  color: Color;
+  subpaths: DrawingSubpath[];
+  // Filled with the given rule, or stroked as open lines of the given width.
+  paint: { type: 'fill'; rule: 'evenodd' | 'nonzero' } | { type: 'line'; width: number };
+};
+
+export type VectorDrawing = {
+  width: number;
+  height: number;
+  // In paint order, like the elements of the generated SVG.
+  items: DrawingItem[];
+  // Drawn around every fill when the stroke option is on. The width does not scale with the drawing.
+  outline: { color: string; width: number } | null;
+};
+
+// Control point distance for a quarter circle of radius 1.
+const KAPPA = 0.5522847498;
+
+const polylineSubpath = (path: Path, closed: boolean): DrawingSubpath | null => path.length < 2
+    ? null
+    : { start: path[0], segments: path.slice(1).map(to => ({ type: 'line', to })), closed };
+
+/**
+ * Converts fitted segments into a subpath. Segments that are practically straight become lines,
+ * which are shorter to write, and a line that continues the previous one in the same direction
+ * extends it.
+ * @param flatness How far, in pixels, a curve may stray from a straight line and still become one.
+ */
+const cubicSubpath = (segments: CubicBezier[], closed: boolean, flatness: number): DrawingSubpath | null => {
+    if (segments.length === 0) return null;
+    const result: DrawingSegment[] = [];
+    let lineStart: Point | null = null;
+    for (const bez of segments) {
+        const previous = result[result.length - 1];
+        if (!isNearlyStraight(bez, flatness)) {
+            result.push({ type: 'cubic', c1: bez[1], c2: bez[2], to: bez[3] });
+            lineStart = null;
+        } else if (previous?.type === 'line' && lineStart && isNearlyStraight([lineStart, bez[0], bez[0], bez[3]], flatness)) {
+            previous.to = bez[3];
+        } else {
+            result.push({ type: 'line', to: bez[3] });
+            lineStart = bez[0];
+        }
+    }
+    return { start: segments[0][0], segments: result, closed };
+};
+
+const ellipseSubpath = (cx: number, cy: number, rx: number, ry: number, angleDegrees: number): DrawingSubpath => {
+    const cos = Math.cos(angleDegrees * Math.PI / 180);
+    const sin = Math.sin(angleDegrees * Math.PI / 180);
+    const at = (x: number, y: number): Point => ({ x: cx + x * cos - y * sin, y: cy + x * sin + y * cos });
+    const kx = KAPPA * rx;
+    const ky = KAPPA * ry;
+    return {
+        start: at(rx, 0),
+        segments: [
+            { type: 'cubic', c1: at(rx, ky), c2: at(kx, ry), to: at(0, ry) },
+            { type: 'cubic', c1: at(-kx, ry), c2: at(-rx, ky), to: at(-rx, 0) },
+            { type: 'cubic', c1: at(-rx, -ky), c2: at(-kx, -ry), to: at(0, -ry) },
+            { type: 'cubic', c1: at(kx, -ry), c2: at(rx, -ky), to: at(rx, 0) },
+        ],
+        closed: true,
+    };
+};
+
+const roundedRectSubpath = (x: number, y: number, width: number, height: number, radius: number): DrawingSubpath => {
+    const r = Math.min(radius, width / 2, height / 2);
+    if (r <= 0) {
+        return polylineSubpath([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }], true)!;
+    }
+    const k = KAPPA * r;
+    const right = x + width;
+    const bottom = y + height;
+    return {
+        start: { x: x + r, y },
+        segments: [
+            { type: 'line', to: { x: right - r, y } },
+            { type: 'cubic', c1: { x: right - r + k, y }, c2: { x: right, y: y + r - k }, to: { x: right, y: y + r } },
+            { type: 'line', to: { x: right, y: bottom - r } },
+            { type: 'cubic', c1: { x: right, y: bottom - r + k }, c2: { x: right - r + k, y: bottom }, to: { x: right - r, y: bottom } },
+            { type: 'line', to: { x: x + r, y: bottom } },
+            { type: 'cubic', c1: { x: x + r - k, y: bottom }, c2: { x, y: bottom - r + k }, to: { x, y: bottom - r } },
+            { type: 'line', to: { x, y: y + r } },
+            { type: 'cubic', c1: { x, y: y + r - k }, c2: { x: x + r - k, y }, to: { x: x + r, y } },
+        ],
+        closed: true,
+    };
+};
+
+/**
+ * Converts a detected primitive into a drawing item.
+ */
+const primitiveToDrawingItem = (primitive: Primitive, color: Color): DrawingItem => {
+    const fill = (subpath: DrawingSubpath): DrawingItem => ({ color, subpaths: [subpath], paint: { type: 'fill', rule: 'nonzero' } });
+    switch (primitive.type) {
+        case 'circle':
+            return fill(ellipseSubpath(primitive.cx, primitive.cy, primitive.r, primitive.r, 0));
+        case 'ellipse':
+            return fill(ellipseSubpath(primitive.cx, primitive.cy, primitive.rx, primitive.ry, primitive.angle));
+        case 'rect':
+            return fill(roundedRectSubpath(primitive.x, primitive.y, primitive.width, primitive.height, primitive.r));
+        case 'line': {
+            const { x1, y1, x2, y2, width } = primitive;
+            return { color, subpaths: [polylineSubpath([{ x: x1, y: y1 }, { x: x2, y: y2 }], false)!], paint: { type: 'line', width } };
+        }
+        case 'polygon':
+            return fill(polylineSubpath(primitive.points, true)!);
+    }
+};
+
+// Curves need some slack even at zero simplification, or every pixel step becomes a segment.
+const getCurveError = (simplification: number): number => Math.max(simplification, 0.5);
+
+/**
+ * Writes one subpath as SVG path data. A run of straight segments shares a single L command.
+ */
+const subpathToSvgData = (subpath: DrawingSubpath, curveType: CurveType, error: number): string => {
+    const fmt = (p: Point) => `${p.x.toFixed(1)} ${p.y.toFixed(1)}`;
+    let d = `M${fmt(subpath.start)}`;
+    let from = subpath.start;
+    subpath.segments.forEach((segment, i) => {
+        if (segment.type === 'line') {
+            d += `${subpath.segments[i - 1]?.type === 'line' ? ' ' : 'L'}${fmt(segment.to)}`;
+        } else if (curveType === 'quadratic') {
+            for (const [control, end] of cubicToQuadratics([from, segment.c1, segment.c2, segment.to], error / 2)) {
+                d += `Q${fmt(control)} ${fmt(end)}`;
+            }
+        } else {
+            d += `C${fmt(segment.c1)} ${fmt(segment.c2)} ${fmt(segment.to)}`;
+        }
+        from = segment.to;
+    });
+    return subpath.closed ? `${d}Z` : d;
+};
+
+type ShapeGeometry = {
+    shape: TracedShape;
+    // Filled path groups, each written as one path, in paint order.
+    groups: DrawingSubpath[][];
+    primitives: Primitive[];
+    // Open centerline strokes, set instead of groups for centerline shapes.
+    strokes?: DrawingSubpath[];
+};
+
+/**
+ * Simplifies or fits every shape the way the SVG options ask for. This is the one place output
+ * geometry is built; generateSvg and buildDrawing only write it out.
+ */
+const buildShapeGeometry = (tracedData: TracedData, options: GenerateSvgOptions): ShapeGeometry[] => {
+    const { edges, pixelEdges = false, smoothingRadius = 0, silhouette = false } = tracedData;
+    const {
+        simplification,
+        pathMode = 'polyline',
+        cornerThreshold = 60,
+        holeMode = 'evenodd',
+        silhouetteColor = '#000000',
+    } = options;
+    const shapes = silhouette
+        ? tracedData.shapes.map(shape => ({ ...shape, color: hexToColor(silhouetteColor) }))
+        : tracedData.shapes;
+    // In curves mode the simplification level doubles as the maximum fitting error.
+    const curveError = getCurveError(simplification);
+    // Matches the straight-run test in fitCubic.
+    const flatness = curveError / 4;
+    const cornerWindow = getCornerWindow(smoothingRadius);
+    const isSubpath = (subpath: DrawingSubpath | null): subpath is DrawingSubpath => subpath !== null;
+
+    // Pixel-grid contours are already minimal; simplifying or fitting them would only break the
+    // pixel-for-pixel match.
+    const contourSubpath = (path: Path): DrawingSubpath | null => pixelEdges
+        ? polylineSubpath(path, true)
+        : pathMode === 'curves'
+            ? cubicSubpath(fitContourCurves(path, curveError, cornerThreshold, cornerWindow), true, flatness)
+            : polylineSubpath(simplifyPath(path, simplification), true);
+
+    // Shared edges are simplified or fitted once, so both neighbours of a boundary stay in step.
+    const sharedPolylines = edges && pathMode === 'polyline' ? edges.map(edge => simplifyPath(edge, simplification)) : [];
+    const sharedCurves = edges && pathMode === 'curves' ? edges.map(edge => fitOpenCurves(edge, curveError, cornerThreshold, cornerWindow)) : [];
+    // Loops already run with their region on the right, so they need no re-orientation.
+    const loopSubpath = (loop: EdgeRef[]): DrawingSubpath | null => pathMode === 'curves'
+        ? cubicSubpath(
+            loop.flatMap(({ edge, reversed }) => reversed
+                ? [...sharedCurves[edge]].reverse().map(([p0, c1, c2, p3]): CubicBezier => [p3, c2, c1, p0])
+                : sharedCurves[edge]),
+            true,
+            flatness,
+        )
+        : polylineSubpath(loopToPath(loop, sharedPolylines), true);
+
+    // Centerline strokes are open lines drawn with the traced width instead of a fill.
+    const strokeSubpath = (stroke: Path): DrawingSubpath | null => pathMode === 'curves' && stroke.length > 2
+        ? cubicSubpath(fitOpenCurves(stroke, curveError, cornerThreshold, cornerWindow), false, flatness)
+        : polylineSubpath(simplifyPath(stroke, simplification), false);
+
+    return (shapes || []).map((shape): ShapeGeometry => {
+        const { contours, hierarchy, loops, strokes } = shape;
+        if (strokes) {
+            return { shape, groups: [], primitives: [], strokes: strokes.map(strokeSubpath).filter(isSubpath) };
+        }
+        const sharedLoops = edges ? loops : undefined;
+        const { primitives, groups } = groupShapeContours(shape, options, !!sharedLoops || pixelEdges);
+        const subpathGroups = groups
+            .map(group => group
+                .map(i => sharedLoops
+                    ? loopSubpath(sharedLoops[i])
+                    : contourSubpath(holeMode === 'evenodd' ? contours[i] : orientContour(contours[i], hierarchy[i])))
+                .filter(isSubpath))
+            .filter(subpaths => subpaths.length > 0);
+        return { shape, groups: subpathGroups, primitives };
+    });
+};
+
+/**
+ * Generates an SVG string from traced data and a simplification level.
+ * This is the fast part that can be re-run with different simplification values.
+ */
+export const generateSvg = (tracedData: TracedData, options: GenerateSvgOptions): string => {
+    const { width, height } = tracedData;
+    const {
+        simplification,
+        strokeEnabled,
+        strokeColor,
+        strokeWidth,
+        curveType = 'cubic',
+        holeMode = 'evenodd',
+        crispEdges = false,
+    } = options;
+    const curveError = getCurveError(simplification);
+    const toPathData = (subpaths: DrawingSubpath[]) => subpaths.map(subpath => subpathToSvgData(subpath, curveType, curveError)).join('');
+
+    const pathElements = buildShapeGeometry(tracedData, options).map(({ shape, groups, primitives, strokes }) => {
+        const { color } = shape;
+        if (strokes) {
+            const d = toPathData(strokes);
+            if (!d) return '';
+            const hex = `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+            const width = (shape.strokeWidth ?? 1).toFixed(1);
+            return `<path fill="none" stroke="${hex}" stroke-opacity="${(color.a / 255).toFixed(2)}" stroke-width="${width}" stroke-linecap="round" stroke-linejoin="round" d="${d}"/>`;
+        }
+        if (groups.length === 0 && primitives.length === 0) return '';
+
+        const hexColor = `#${toHex(color.r)}${toHex(color.g)}${toHex(color.b)}`;
+        const opacity = (color.a / 255).toFixed(2);
+
+        const strokeAttrs = strokeEnabled
+            ? ` stroke="${strokeColor}" stroke-width="${strokeWidth.toFixed(1)}" vector-effect="non-scaling-stroke"`
+            : '';
+        const fillAttrs = `fill="${hexColor}" fill-opacity="${opacity}"${strokeAttrs}`;
+
+        const primitiveElements = primitives.map(p => primitiveToSvgElement(p, fillAttrs, hexColor, opacity)).join('');
+        // The nonzero rule is the SVG default, so oriented paths need no fill-rule attribute.
+        const fillRule = holeMode === 'evenodd' ? ' fill-rule="evenodd"' : '';
+        const pathElement = groups.map(group => `<path ${fillAttrs}${fillRule} d="${toPathData(group)}"/>`).join('');
+        return `${pathElement}${primitiveElements}`;
+    }).join('');
+
+    const rendering = crispEdges ? ' shape-rendering="crispEdges"' : '';
+    if (!pathElements) {
+        return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}"${rendering}></svg>`;
+    }
+  
+    return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}"${rendering}>${pathElements}</svg>`;
+};
+
+/**
+ * Builds the same geometry as generateSvg as drawing commands, for the PDF, EPS and DXF writers.
+ * Simplification, curve fitting, primitives, hole handling and the stroke option all apply.
+ */
+export const buildDrawing = (tracedData: TracedData, options: GenerateSvgOptions): VectorDrawing => {
+    const { width, height } = tracedData;
+    const { strokeEnabled, strokeColor, strokeWidth, holeMode = 'evenodd' } = options;
+    const rule = holeMode === 'evenodd' ? 'evenodd' : 'nonzero';
+
+    const items = buildShapeGeometry(tracedData, options).flatMap(({ shape, groups, primitives, strokes }): DrawingItem[] => {
+        const { color } = shape;
+        if (strokes) {
+            return strokes.length > 0 ? [{ color, subpaths: strokes, paint: { type: 'line', width: shape.strokeWidth ?? 1 } }] : [];
+        }
+        return [
+            ...groups.map((subpaths): DrawingItem => ({ color, subpaths, paint: { type: 'fill', rule } })),
+            ...primitives.map(primitive => primitiveToDrawingItem(primitive, color)),
+        ];
+    });
+
+    return { width, height, items, outline: strokeEnabled ? { color: strokeColor, width: strokeWidth } : null };
+};
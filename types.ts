@@ -2,4 +2,6 @@
 export interface UploadedImage {
   dataUrl: string;
   mimeType: string;
+  // Original file name, when the image came from a file.
+  name?: string;
 }